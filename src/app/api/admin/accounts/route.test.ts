@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WriteBatch } from "firebase-admin/firestore";
+import { POST } from "./route";
+import { POST as me } from "../me/route";
+import { adminAuth, adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { auditEntries, hasEmulators, makeSignInStale, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+const emailTaken = (email: string) =>
+  adminAuth()
+    .getUserByEmail(email)
+    .then(() => true)
+    .catch(() => false);
+
+// The login write after an Auth change fails once
+const failNextLoginWrite = () => vi.spyOn(WriteBatch.prototype, "commit").mockRejectedValueOnce(new Error("login write failed"));
+
+describe.skipIf(!hasEmulators)("POST /api/admin/accounts", () => {
+  let boss: { uid: string; token: string };
+  let mod: { uid: string; token: string };
+
+  beforeEach(async () => {
+    await resetEmulators();
+    boss = await signInAs("boss@example.com", rolesPayload(["super_admin"]));
+    mod = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // A member account with its login doc, the way the create action leaves it
+  const member = async (email = "member@example.com") => {
+    const user = await adminAuth().createUser({ email, displayName: "Member" });
+    await adminDb().doc(`login/${user.uid}`).set({ email, name: "Member", disabled: false });
+    return user.uid;
+  };
+
+  it("rejects a missing token and callers without the rights section", async () => {
+    const body = { action: "create", email: "new@example.com", name: "New" };
+    expect((await post(POST, null, body)).status).toBe(401);
+    expect((await post(POST, "not-a-token", body)).status).toBe(401);
+    const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    expect((await post(POST, host.token, body)).status).toBe(403);
+    expect(await emailTaken("new@example.com")).toBe(false);
+  });
+
+  describe("create", () => {
+    it("creates the Auth account and its login doc", async () => {
+      const res = await post(POST, mod.token, { action: "create", email: "new@example.com", name: " New ", password: "secret123" });
+      expect(res.status).toBe(200);
+      const uid = (res.body.profile as { uid: string }).uid;
+      expect(res.body).toEqual({ profile: { uid, email: "new@example.com", name: "New", disabled: false } });
+      expect((await adminDb().doc(`login/${uid}`).get()).data()).toEqual({
+        email: "new@example.com",
+        name: "New",
+        disabled: false,
+        nameLower: "new",
+        emailLower: "new@example.com",
+      });
+      expect(await auditEntries("user.create")).toEqual([expect.objectContaining({ target: `login/${uid}`, actorUid: mod.uid })]);
+    });
+
+    it("returns a reset link when no password is given", async () => {
+      const res = await post(POST, mod.token, { action: "create", email: "new@example.com", name: "New" });
+      expect(typeof res.body.resetLink).toBe("string");
+    });
+
+    it("refuses a taken email", async () => {
+      await member("taken@example.com");
+      expect((await post(POST, mod.token, { action: "create", email: "taken@example.com", name: "New" })).status).toBe(409);
+    });
+
+    it("deletes the new Auth account when the login write fails", async () => {
+      failNextLoginWrite();
+      const res = await post(POST, mod.token, { action: "create", email: "new@example.com", name: "New", password: "secret123" });
+      expect(res.status).toBe(500);
+      expect(await emailTaken("new@example.com")).toBe(false);
+      expect(await auditEntries("user.create")).toEqual([]);
+    });
+  });
+
+  describe("update", () => {
+    it("changes the Auth account and the login doc", async () => {
+      const uid = await member();
+      const res = await post(POST, mod.token, { action: "update", uid, email: "renamed@example.com", name: "Renamed" });
+      expect(res.body).toEqual({ profile: { uid, email: "renamed@example.com", name: "Renamed", disabled: false } });
+      expect((await adminAuth().getUser(uid)).email).toBe("renamed@example.com");
+      expect((await adminDb().doc(`login/${uid}`).get()).data()).toMatchObject({
+        email: "renamed@example.com",
+        name: "Renamed",
+        nameLower: "renamed",
+        emailLower: "renamed@example.com",
+      });
+      expect(await auditEntries("user.update")).toHaveLength(1);
+    });
+
+    it("restores the Auth account when the login write fails", async () => {
+      const uid = await member();
+      failNextLoginWrite();
+      const res = await post(POST, mod.token, { action: "update", uid, email: "renamed@example.com", name: "Renamed" });
+      expect(res.status).toBe(500);
+      const user = await adminAuth().getUser(uid);
+      expect([user.email, user.displayName]).toEqual(["member@example.com", "Member"]);
+      expect((await adminDb().doc(`login/${uid}`).get()).data()?.email).toBe("member@example.com");
+    });
+  });
+
+  describe("disable and enable", () => {
+    it("disables the account, signs it out and enables it again", async () => {
+      const target = await signInAs("player@example.com", { disabled: false });
+      const res = await post(POST, mod.token, { action: "disable", uid: target.uid });
+      expect(res.body).toEqual({ profile: expect.objectContaining({ uid: target.uid, disabled: true }) });
+      expect((await adminAuth().getUser(target.uid)).disabled).toBe(true);
+      expect((await adminDb().doc(`login/${target.uid}`).get()).data()?.disabled).toBe(true);
+      // the old ID token no longer works
+      expect((await post(me, target.token, {})).status).toBe(401);
+
+      await post(POST, mod.token, { action: "enable", uid: target.uid });
+      expect((await adminAuth().getUser(target.uid)).disabled).toBe(false);
+      expect((await adminDb().doc(`login/${target.uid}`).get()).data()?.disabled).toBe(false);
+      expect((await auditEntries("user.disable")).length + (await auditEntries("user.enable")).length).toBe(2);
+    });
+
+    it("restores the Auth account when the login write fails", async () => {
+      const uid = await member();
+      failNextLoginWrite();
+      expect((await post(POST, mod.token, { action: "disable", uid })).status).toBe(500);
+      expect((await adminAuth().getUser(uid)).disabled).toBe(false);
+      expect((await adminDb().doc(`login/${uid}`).get()).data()?.disabled).toBe(false);
+      expect(await auditEntries("user.disable")).toEqual([]);
+
+      await adminAuth().updateUser(uid, { disabled: true });
+      await adminDb().doc(`login/${uid}`).update({ disabled: true });
+      failNextLoginWrite();
+      expect((await post(POST, mod.token, { action: "enable", uid })).status).toBe(500);
+      expect((await adminAuth().getUser(uid)).disabled).toBe(true);
+    });
+
+    it("asks for a recent sign-in and refuses to disable yourself", async () => {
+      const uid = await member();
+      expect((await post(POST, mod.token, { action: "disable", uid: mod.uid })).status).toBe(400);
+      makeSignInStale();
+      const res = await post(POST, mod.token, { action: "disable", uid });
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe("reauth-required");
+      expect((await adminAuth().getUser(uid)).disabled).toBe(false);
+    });
+  });
+
+  describe("delete", () => {
+    it("deletes the Auth account and the login doc", async () => {
+      const uid = await member();
+      expect((await post(POST, mod.token, { action: "delete", uid })).body).toEqual({ profile: null });
+      expect(await emailTaken("member@example.com")).toBe(false);
+      expect((await adminDb().doc(`login/${uid}`).get()).exists).toBe(false);
+      expect(await auditEntries("user.delete")).toEqual([expect.objectContaining({ before: { email: "member@example.com", name: "Member", disabled: false } })]);
+    });
+
+    it("deletes a login doc without an Auth account", async () => {
+      await adminDb().doc("login/handmade").set({ email: "hand@example.com", name: "Hand" });
+      expect((await post(POST, mod.token, { action: "delete", uid: "handmade" })).status).toBe(200);
+      expect((await adminDb().doc("login/handmade").get()).exists).toBe(false);
+    });
+
+    it("asks for a recent sign-in and refuses to delete yourself", async () => {
+      const uid = await member();
+      expect((await post(POST, mod.token, { action: "delete", uid: mod.uid })).status).toBe(400);
+      makeSignInStale();
+      expect((await post(POST, mod.token, { action: "delete", uid })).body.code).toBe("reauth-required");
+      expect(await emailTaken("member@example.com")).toBe(true);
+    });
+  });
+
+  it("creates a password reset link", async () => {
+    const uid = await member();
+    const res = await post(POST, mod.token, { action: "resetLink", uid });
+    expect(typeof res.body.resetLink).toBe("string");
+    expect(await auditEntries("user.resetLink")).toHaveLength(1);
+  });
+
+  it("keeps admin accounts to super-admins", async () => {
+    const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    const requests = [
+      { action: "update", uid: host.uid, email: "x@example.com", name: "X" },
+      { action: "disable", uid: host.uid },
+      { action: "delete", uid: host.uid },
+      { action: "resetLink", uid: host.uid },
+    ];
+    for (const body of requests) expect((await post(POST, mod.token, body)).status).toBe(403);
+    expect((await adminAuth().getUser(host.uid)).email).toBe("host@example.com");
+    expect((await adminDb().doc(`login/${host.uid}`).get()).exists).toBe(true);
+
+    expect((await post(POST, boss.token, { action: "disable", uid: host.uid })).status).toBe(200);
+  });
+
+  describe("link", () => {
+    const handmade = () => adminDb().doc("login/handmade").set({ email: "hand@example.com", name: "Hand", ...rolesPayload(["quiz_host"]) });
+
+    it("moves a hand-made login doc under the verified account with its email", async () => {
+      await handmade();
+      const user = await adminAuth().createUser({ email: "hand@example.com", emailVerified: true });
+      const res = await post(POST, boss.token, { action: "link", uid: "handmade" });
+      expect(res.body).toEqual({ profile: { uid: user.uid, email: "hand@example.com", name: "Hand", disabled: false } });
+      expect((await adminDb().doc("login/handmade").get()).exists).toBe(false);
+      expect((await adminDb().doc(`login/${user.uid}`).get()).data()).toMatchObject({ roles: ["quiz_host"] });
+      expect(await auditEntries("user.link")).toHaveLength(1);
+    });
+
+    it("refuses an account that hasn't verified its email", async () => {
+      await handmade();
+      const user = await adminAuth().createUser({ email: "hand@example.com" });
+      expect((await post(POST, boss.token, { action: "link", uid: "handmade" })).status).toBe(400);
+      expect((await adminDb().doc(`login/${user.uid}`).get()).exists).toBe(false);
+    });
+
+    it("is for super-admins with a recent sign-in only", async () => {
+      await adminDb().doc("login/handmade").set({ email: "hand@example.com", name: "Hand" });
+      await adminAuth().createUser({ email: "hand@example.com", emailVerified: true });
+      expect((await post(POST, mod.token, { action: "link", uid: "handmade" })).status).toBe(403);
+      makeSignInStale();
+      expect((await post(POST, boss.token, { action: "link", uid: "handmade" })).body.code).toBe("reauth-required");
+      expect((await adminDb().doc("login/handmade").get()).exists).toBe(true);
+    });
+  });
+});
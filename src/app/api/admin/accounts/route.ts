@@ -0,0 +1,174 @@
+import type { UserRecord } from "firebase-admin/auth";
+import { adminAuth, adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, ApiError, readJson, requireRecentAuth, requireSection } from "../../../../lib/server/adminRequest";
+import type { Caller } from "../../../../lib/server/adminRequest";
+import { logAudit } from "../../../../lib/server/audit";
+import { canAccess, rolesOf } from "../../../../lib/roles";
+import { searchFieldsOf } from "../../../../lib/userSearch";
+import type { AuditInput } from "../../../../lib/audit";
+import type { AccountProfile, AccountRequest, AccountResponse } from "../../../../lib/adminApi";
+
+const MAX_NAME = 100;
+
+// Firebase Auth errors the admin can fix, as client errors
+const authError = (err: unknown): never => {
+  const code = (err as { code?: string }).code || "";
+  if (code === "auth/email-already-exists") throw new ApiError(409, "Another account already uses this email");
+  if (code === "auth/invalid-email") throw new ApiError(400, "Invalid email address");
+  if (code === "auth/invalid-password") throw new ApiError(400, "Password must be at least 6 characters");
+  if (code === "auth/user-not-found") throw new ApiError(404, "This user has no Firebase Auth account");
+  throw err;
+};
+
+const cleanProfile = (body: { email?: unknown; name?: unknown }) => {
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!email) throw new ApiError(400, "Email is required");
+  if (!name || name.length > MAX_NAME) throw new ApiError(400, `Name is required (at most ${MAX_NAME} characters)`);
+  return { email, name };
+};
+
+// Writes the login doc change and its audit entry together
+const commitWithAudit = async (caller: Caller, uid: string, change: Record<string, unknown> | null, input: Omit<AuditInput, "target">) => {
+  const db = adminDb();
+  const ref = db.doc(`login/${uid}`);
+  const batch = db.batch();
+  if (change) batch.set(ref, change, { merge: true });
+  logAudit(db, batch, caller, { ...input, target: ref.path });
+  await batch.commit();
+};
+
+const profileOf = (user: UserRecord, name: string): AccountProfile => ({ uid: user.uid, email: user.email || "", name, disabled: user.disabled });
+
+const createAccount = async (caller: Caller, body: Extract<AccountRequest, { action: "create" }>): Promise<AccountResponse> => {
+  const { email, name } = cleanProfile(body);
+  const password = typeof body.password === "string" && body.password ? body.password : undefined;
+  const user = await adminAuth().createUser({ email, displayName: name, password }).catch(authError);
+  try {
+    await commitWithAudit(caller, user.uid, { email, name, disabled: false, ...searchFieldsOf({ email, name }) }, {
+      action: "user.create",
+      targetLabel: name,
+      before: null,
+      after: { email, name },
+    });
+  } catch (err) {
+    // without its login doc the account would be invisible to the panel
+    await adminAuth().deleteUser(user.uid).catch((e) => console.error("Failed to roll back new account:", e));
+    throw err;
+  }
+  const resetLink = password ? undefined : await adminAuth().generatePasswordResetLink(email);
+  return { profile: profileOf(user, name), resetLink };
+};
+
+// Every action except create, on an existing login doc
+const changeAccount = async (caller: Caller, body: Exclude<AccountRequest, { action: "create" }>): Promise<AccountResponse> => {
+  const uid = typeof body.uid === "string" ? body.uid : "";
+  if (!uid || uid.includes("/")) throw new ApiError(400, "Invalid user id");
+  const snap = await adminDb().doc(`login/${uid}`).get();
+  if (!snap.exists) throw new ApiError(404, "User not found");
+  const current = snap.data() || {};
+  // moderators manage members; admins are managed by super-admins only
+  if (rolesOf(current).length > 0 && !canAccess(caller.roles, "roles")) throw new ApiError(403, "Only super-admins can manage admin accounts");
+  if (uid === caller.uid && ["disable", "delete"].includes(body.action)) throw new ApiError(400, `You can't ${body.action} your own account`);
+  if (["disable", "delete"].includes(body.action)) requireRecentAuth(caller);
+  const label = String(current.name || current.email || uid);
+  const before = { email: current.email ?? null, name: current.name ?? null, disabled: !!current.disabled };
+
+  if (body.action === "update") {
+    const { email, name } = cleanProfile(body);
+    const previous = await adminAuth().getUser(uid).catch(authError);
+    const user = await adminAuth().updateUser(uid, { email, displayName: name }).catch(authError);
+    try {
+      await commitWithAudit(caller, uid, { email, name, ...searchFieldsOf({ email, name }) }, { action: "user.update", targetLabel: name, before, after: { ...before, email, name } });
+    } catch (err) {
+      await adminAuth()
+        .updateUser(uid, { email: previous.email, displayName: previous.displayName || null })
+        .catch((e) => console.error("Failed to roll back account edit:", e));
+      throw err;
+    }
+    return { profile: profileOf(user, name) };
+  }
+
+  if (body.action === "disable" || body.action === "enable") {
+    const disabled = body.action === "disable";
+    const previous = await adminAuth().getUser(uid).catch(authError);
+    const user = await adminAuth().updateUser(uid, { disabled }).catch(authError);
+    try {
+      // signs the user out everywhere; verifyIdToken(token, true) rejects their old tokens
+      if (disabled) await adminAuth().revokeRefreshTokens(uid);
+      await commitWithAudit(caller, uid, { disabled }, { action: disabled ? "user.disable" : "user.enable", targetLabel: label, before, after: { ...before, disabled } });
+    } catch (err) {
+      // revoked sessions stay revoked; the user just signs in again
+      await adminAuth()
+        .updateUser(uid, { disabled: previous.disabled })
+        .catch((e) => console.error("Failed to roll back account disable/enable:", e));
+      throw err;
+    }
+    return { profile: profileOf(user, String(current.name || "")) };
+  }
+
+  if (body.action === "delete") {
+    // a login doc without an Auth account (e.g. created by hand) is still deleted, which
+    // also lets a delete whose login write failed be retried
+    await adminAuth()
+      .deleteUser(uid)
+      .catch((err) => {
+        if ((err as { code?: string }).code !== "auth/user-not-found") authError(err);
+      });
+    const db = adminDb();
+    const batch = db.batch();
+    batch.delete(snap.ref);
+    logAudit(db, batch, caller, { action: "user.delete", target: snap.ref.path, targetLabel: label, before: current, after: null });
+    await batch.commit();
+    return { profile: null };
+  }
+
+  if (body.action === "resetLink") {
+    const user = await adminAuth().getUser(uid).catch(authError);
+    if (!user.email) throw new ApiError(400, "This user has no email address");
+    const resetLink = await adminAuth().generatePasswordResetLink(user.email).catch(authError);
+    await commitWithAudit(caller, uid, null, { action: "user.resetLink", targetLabel: label, before: null, after: null });
+    return { profile: profileOf(user, String(current.name || "")), resetLink };
+  }
+
+  if (body.action === "link") {
+    // linking hands the doc's rights to whoever holds the sign-in account
+    if (!canAccess(caller.roles, "roles")) throw new ApiError(403, "Only super-admins can link accounts");
+    requireRecentAuth(caller);
+    const linked = await adminAuth()
+      .getUser(uid)
+      .then(() => true)
+      .catch((err) => ((err as { code?: string }).code === "auth/user-not-found" ? false : authError(err)));
+    if (linked) throw new ApiError(400, "This user already has a sign-in account");
+    if (typeof current.email !== "string" || !current.email) throw new ApiError(400, "This user has no email address");
+    const user = await adminAuth()
+      .getUserByEmail(current.email)
+      .catch((err) => {
+        if ((err as { code?: string }).code === "auth/user-not-found") throw new ApiError(404, "No sign-in account uses this email yet");
+        return authError(err);
+      });
+    // otherwise anyone who signs up with the address would inherit the doc's roles
+    if (!user.emailVerified) throw new ApiError(400, "The sign-in account for this email hasn't verified its address");
+    const db = adminDb();
+    const target = db.doc(`login/${user.uid}`);
+    if ((await target.get()).exists) throw new ApiError(409, "That sign-in account already has its own login record");
+    const batch = db.batch();
+    batch.create(target, { ...current, ...searchFieldsOf(current) });
+    batch.delete(snap.ref);
+    logAudit(db, batch, caller, { action: "user.link", target: target.path, targetLabel: label, before: { uid }, after: { uid: user.uid } });
+    await batch.commit();
+    return { profile: profileOf(user, String(current.name || "")) };
+  }
+
+  throw new ApiError(400, "Unknown action");
+};
+
+// Creates, edits, disables, enables, deletes and links accounts, keeping Firebase Auth and the
+// `login` collection in sync: Auth changes first, and are undone if the login write fails.
+export const POST = adminRoute(async (request): Promise<AccountResponse> => {
+  const caller = await requireSection(request, "rights");
+  const body = await readJson<AccountRequest>(request);
+  if (!body || typeof body !== "object") throw new ApiError(400, "No action given");
+  if (body.action === "create") return createAccount(caller, body);
+  return changeAccount(caller, body);
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { auditEntries, hasEmulators, makeSignInStale, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+describe.skipIf(!hasEmulators)("POST /api/admin/bulk", () => {
+  beforeEach(resetEmulators);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const setWof = (id: string) => ({ type: "set", path: `WOF/${id}`, data: { Name: id, QN: 1 } });
+
+  it("rejects a missing or invalid ID token", async () => {
+    expect((await post(POST, null, { ops: [setWof("a")] })).status).toBe(401);
+    expect((await post(POST, "not-a-token", { ops: [setWof("a")] })).status).toBe(401);
+  });
+
+  it("commits writes inside the caller's sections", async () => {
+    const { token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+    const res = await post(POST, token, { ops: [setWof("a"), setWof("b"), { type: "set", path: "WOF/c", data: { at: { __ts: 1000 } } }] });
+    expect(res.body).toEqual({ committed: 3 });
+    expect((await adminDb().collection("WOF").get()).size).toBe(3);
+    expect((await adminDb().doc("WOF/c").get()).data()?.at.toMillis()).toBe(1000);
+  });
+
+  it("refuses the whole request when one path is outside the caller's sections", async () => {
+    const content = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+    const res = await post(POST, content.token, { ops: [setWof("a"), { type: "delete", path: "login/someone" }] });
+    expect(res.status).toBe(403);
+    expect((await adminDb().collection("WOF").get()).empty).toBe(true);
+
+    const player = await signInAs("player@example.com");
+    expect((await post(POST, player.token, { ops: [setWof("a")] })).status).toBe(403);
+    expect((await post(POST, content.token, { ops: [{ type: "set", path: "kbsQuestions/q", data: {} }] })).status).toBe(403);
+    const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    expect((await post(POST, host.token, { ops: [{ type: "set", path: "kbsQuestions/q", data: { text: "Q" } }] })).body).toEqual({ committed: 1 });
+  });
+
+  it("refuses paths outside the bulk collections and malformed paths", async () => {
+    const { token } = await signInAs("boss@example.com", rolesPayload(["super_admin"]));
+    expect((await post(POST, token, { ops: [{ type: "set", path: "login/someone", data: { isAdmin: true } }] })).status).toBe(403);
+    expect((await post(POST, token, { ops: [{ type: "set", path: "WOF", data: {} }] })).status).toBe(400);
+    expect((await post(POST, token, { ops: [] })).status).toBe(400);
+  });
+
+  it("deletes documents", async () => {
+    await adminDb().doc("WOF/a").set({ Name: "a" });
+    const { token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+    expect((await post(POST, token, { ops: [{ type: "delete", path: "WOF/a" }] })).body).toEqual({ committed: 1 });
+    expect((await adminDb().doc("WOF/a").get()).exists).toBe(false);
+  });
+
+  it("asks for a recent sign-in before deleting", async () => {
+    await adminDb().doc("WOF/a").set({ Name: "a" });
+    const { token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+    makeSignInStale();
+    const res = await post(POST, token, { ops: [{ type: "delete", path: "WOF/a" }] });
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe("reauth-required");
+    expect((await adminDb().doc("WOF/a").get()).exists).toBe(true);
+    // writes without deletes don't need one
+    expect((await post(POST, token, { ops: [setWof("b")] })).body).toEqual({ committed: 1 });
+
+    vi.restoreAllMocks();
+    expect((await post(POST, token, { ops: [{ type: "delete", path: "WOF/a" }] })).body).toEqual({ committed: 1 });
+  });
+
+  describe("audit summaries", () => {
+    const audit = { action: "collection.clear", target: "WOF", targetLabel: "WOF", note: "snapshot s1", written: 0, deleted: 5, failed: 2 };
+
+    it("logs one entry with the deleted and failed counts", async () => {
+      const { uid, token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+      expect((await post(POST, token, { ops: [], audit })).body).toEqual({ committed: 0 });
+      expect(await auditEntries("collection.clear")).toEqual([
+        expect.objectContaining({ target: "WOF", actorUid: uid, note: "snapshot s1", before: { count: 7 }, after: { deleted: 5, failed: 2 } }),
+      ]);
+    });
+
+    it("logs restores and question imports with their write counts", async () => {
+      const { uid, token } = await signInAs("super@example.com", rolesPayload(["super_admin"]));
+      const restore = { ...audit, action: "collection.restore", written: 4, deleted: 1, failed: 0 };
+      const questions = { ...audit, action: "question.import", target: "kbsQuestions", targetLabel: "bank.xlsx", note: "", written: 9, deleted: 0, failed: 1 };
+      await post(POST, token, { ops: [], audit: restore });
+      await post(POST, token, { ops: [], audit: questions });
+      expect(await auditEntries("collection.restore")).toEqual([
+        expect.objectContaining({ target: "WOF", actorUid: uid, before: null, after: { written: 4, deleted: 1, failed: 0 } }),
+      ]);
+      expect(await auditEntries("question.import")).toEqual([
+        expect.objectContaining({ target: "kbsQuestions", targetLabel: "bank.xlsx", after: { written: 9, deleted: 0, failed: 1 } }),
+      ]);
+    });
+
+    it("refuses a summary sent with writes, or with bad counts", async () => {
+      const { token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+      expect((await post(POST, token, { ops: [setWof("a")], audit })).status).toBe(400);
+      expect((await post(POST, token, { ops: [], audit: { ...audit, failed: -1 } })).status).toBe(400);
+      expect((await post(POST, token, { ops: [], audit: { ...audit, deleted: 1.5 } })).status).toBe(400);
+      expect((await post(POST, token, { ops: [], audit: { ...audit, written: undefined } })).status).toBe(400);
+      expect((await adminDb().collection("WOF").get()).empty).toBe(true);
+      expect((await adminDb().collection("auditLog").get()).empty).toBe(true);
+    });
+
+    it("refuses other actions and targets outside the caller's sections", async () => {
+      const { token } = await signInAs("content@example.com", rolesPayload(["content_manager"]));
+      expect((await post(POST, token, { ops: [], audit: { ...audit, action: "rights.save" } })).status).toBe(400);
+      expect((await post(POST, token, { ops: [], audit: { ...audit, target: "login" } })).status).toBe(403);
+      const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+      expect((await post(POST, host.token, { ops: [], audit })).status).toBe(403);
+      expect((await adminDb().collection("auditLog").get()).empty).toBe(true);
+    });
+  });
+});
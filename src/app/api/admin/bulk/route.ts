@@ -0,0 +1,82 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, ApiError, readJson, requireRecentAuth, verifyCaller } from "../../../../lib/server/adminRequest";
+import type { Caller } from "../../../../lib/server/adminRequest";
+import { logAudit } from "../../../../lib/server/audit";
+import { bulkSectionFor, canAccess } from "../../../../lib/roles";
+import type { AuditAction } from "../../../../lib/audit";
+import type { BulkAudit, BulkResponse, WireOp, WireValue } from "../../../../lib/adminApi";
+
+// One Firestore batch
+const MAX_OPS = 500;
+
+// Bulk operations the server logs a summary entry for
+const BULK_AUDIT_ACTIONS: AuditAction[] = ["collection.clear", "collection.restore", "question.import"];
+
+const fromWire = (value: WireValue): unknown => {
+  if (Array.isArray(value)) return value.map(fromWire);
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, WireValue>;
+    if (typeof obj.__ts === "number" && Object.keys(obj).length === 1) return Timestamp.fromMillis(obj.__ts);
+    return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, fromWire(v)]));
+  }
+  return value;
+};
+
+const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+
+// Writes the one entry for a finished bulk operation, e.g. a clear
+const logSummary = async (caller: Caller, audit: BulkAudit) => {
+  if (!BULK_AUDIT_ACTIONS.includes(audit.action)) throw new ApiError(400, "Unknown audit action");
+  const section = typeof audit.target === "string" ? bulkSectionFor(audit.target) : null;
+  if (!section || !canAccess(caller.roles, section)) throw new ApiError(403, `Your roles don't allow writing ${audit.target}`);
+  if (!isCount(audit.written) || !isCount(audit.deleted) || !isCount(audit.failed)) throw new ApiError(400, "Invalid counts");
+
+  const db = adminDb();
+  const batch = db.batch();
+  const cleared = audit.action === "collection.clear";
+  logAudit(db, batch, caller, {
+    action: audit.action,
+    target: audit.target,
+    targetLabel: String(audit.targetLabel || audit.target),
+    before: cleared ? { count: audit.deleted + audit.failed } : null,
+    after: cleared
+      ? { deleted: audit.deleted, failed: audit.failed }
+      : { written: audit.written, deleted: audit.deleted, failed: audit.failed },
+    note: typeof audit.note === "string" ? audit.note : "",
+  });
+  await batch.commit();
+};
+
+// Commits one chunk of runBulkOps writes (imports, clears, snapshots, restores)
+// atomically, after checking the caller's roles cover every path. A request with
+// `audit` and no writes logs the summary of a finished operation instead.
+export const POST = adminRoute(async (request): Promise<BulkResponse> => {
+  const caller = await verifyCaller(request);
+  const { ops, audit } = await readJson<{ ops?: WireOp[]; audit?: BulkAudit }>(request);
+  if (audit) {
+    if (Array.isArray(ops) && ops.length > 0) throw new ApiError(400, "An audit summary is sent without writes");
+    await logSummary(caller, audit);
+    return { committed: 0 };
+  }
+  if (!Array.isArray(ops) || ops.length === 0) throw new ApiError(400, "No writes given");
+  if (ops.length > MAX_OPS) throw new ApiError(400, `At most ${MAX_OPS} writes per request`);
+  // clears and restores
+  if (ops.some((op) => op.type === "delete")) requireRecentAuth(caller);
+
+  const db = adminDb();
+  const batch = db.batch();
+  for (const op of ops) {
+    const segments = typeof op.path === "string" ? op.path.split("/") : [];
+    if (segments.length === 0 || segments.length % 2 !== 0 || segments.some((s) => !s)) {
+      throw new ApiError(400, `Invalid document path: ${op.path}`);
+    }
+    const section = bulkSectionFor(op.path);
+    if (!section || !canAccess(caller.roles, section)) throw new ApiError(403, `Your roles don't allow writing ${op.path}`);
+    if (op.type === "set") batch.set(db.doc(op.path), fromWire(op.data) as Record<string, unknown>);
+    else if (op.type === "delete") batch.delete(db.doc(op.path));
+    else throw new ApiError(400, "Unknown write type");
+  }
+  await batch.commit();
+  return { committed: ops.length };
+});
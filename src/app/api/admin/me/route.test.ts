@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { hasEmulators, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+describe.skipIf(!hasEmulators)("POST /api/admin/me", () => {
+  beforeEach(resetEmulators);
+
+  it("rejects a missing or invalid ID token", async () => {
+    expect((await post(POST, null, {})).status).toBe(401);
+    expect((await post(POST, "not-a-token", {})).status).toBe(401);
+  });
+
+  it("returns the roles on the caller's login doc", async () => {
+    const { token } = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    const res = await post(POST, token, {});
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ roles: ["quiz_host"], setupAvailable: false });
+  });
+
+  it("offers setup only while the panel has no admins", async () => {
+    const { token } = await signInAs("first@example.com");
+    expect((await post(POST, token, {})).body).toEqual({ roles: [], setupAvailable: true });
+    await adminDb().doc("login/someone").set({ email: "admin@example.com", ...rolesPayload(["moderator"]) });
+    expect((await post(POST, token, {})).body).toEqual({ roles: [], setupAvailable: false });
+  });
+
+  it("never adopts another login doc with the caller's email", async () => {
+    await adminDb().doc("login/handmade").set({ email: "boss@example.com", ...rolesPayload(["super_admin"]), disabled: false });
+    const { uid, token } = await signInAs("boss@example.com", null);
+    const res = await post(POST, token, {});
+    expect(res.body).toEqual({ roles: [], setupAvailable: false });
+    expect((await adminDb().doc(`login/${uid}`).get()).exists).toBe(false);
+  });
+
+  it("closes setup when a super-admin signs in to a panel set up before roles", async () => {
+    const { uid, token } = await signInAs("legacy@example.com", { isAdmin: true });
+    expect((await post(POST, token, {})).body).toEqual({ roles: ["super_admin"], setupAvailable: false });
+    expect((await adminDb().doc("config/setup").get()).data()?.superAdminUid).toBe(uid);
+  });
+});
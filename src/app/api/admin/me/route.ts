@@ -0,0 +1,16 @@
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, verifyCaller } from "../../../../lib/server/adminRequest";
+import { isSetupOpen, markSetupCompleted } from "../../../../lib/server/setup";
+import type { MeResponse } from "../../../../lib/adminApi";
+
+// Resolves the signed-in user's admin roles. Only `login/{uid}` counts: a login doc
+// created by hand under another id is moved there with the accounts route's "link"
+// action, never matched by email here, since anyone can sign up with an admin's address.
+export const POST = adminRoute(async (request): Promise<MeResponse> => {
+  const caller = await verifyCaller(request);
+  const db = adminDb();
+  const roles = caller.roles;
+
+  if (roles.includes("super_admin")) await markSetupCompleted(db, caller.uid);
+  return { roles, setupAvailable: roles.length === 0 && (await isSetupOpen(db)) };
+});
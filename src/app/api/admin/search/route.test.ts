@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { hasEmulators, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+describe.skipIf(!hasEmulators)("POST /api/admin/search", () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    // as the app writes them: without search copies, or with ones from before a rename
+    await adminDb().doc("login/new").set({ name: "Ada Lovelace", email: "Ada@Example.com" });
+    await adminDb().doc("login/renamed").set({ name: "Grace", email: "grace@example.com", nameLower: "g", emailLower: "grace@example.com" });
+  });
+
+  it("refuses callers without the rights section", async () => {
+    expect((await post(POST, null, {})).status).toBe(401);
+    const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    expect((await post(POST, host.token, {})).status).toBe(403);
+    expect((await adminDb().doc("login/new").get()).data()?.nameLower).toBeUndefined();
+  });
+
+  it("fills in missing and outdated search copies", async () => {
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    // the moderator's own login doc has none either
+    expect((await post(POST, token, {})).body).toEqual({ updated: 3 });
+    expect((await adminDb().doc("login/new").get()).data()).toMatchObject({ nameLower: "ada lovelace", emailLower: "ada@example.com" });
+    expect((await adminDb().doc("login/renamed").get()).data()).toMatchObject({ nameLower: "grace" });
+
+    expect((await post(POST, token, {})).body).toEqual({ updated: 0 });
+  });
+});
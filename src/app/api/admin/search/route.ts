@@ -0,0 +1,22 @@
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, requireSection } from "../../../../lib/server/adminRequest";
+import { searchFieldsOf, searchFieldsStale } from "../../../../lib/userSearch";
+import type { SearchResponse } from "../../../../lib/adminApi";
+
+// One Firestore batch
+const BATCH_SIZE = 500;
+
+// Brings the lower-cased search copies up to date on every login doc that needs it, so
+// users the app created or renamed are found by the rights table's search.
+export const POST = adminRoute(async (request): Promise<SearchResponse> => {
+  await requireSection(request, "rights");
+  const db = adminDb();
+  const snap = await db.collection("login").select("name", "email", "nameLower", "emailLower").get();
+  const stale = snap.docs.filter((d) => searchFieldsStale(d.data()));
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    stale.slice(i, i + BATCH_SIZE).forEach((d) => batch.update(d.ref, searchFieldsOf(d.data())));
+    await batch.commit();
+  }
+  return { updated: stale.length };
+});
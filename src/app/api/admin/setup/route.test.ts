@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { hasEmulators, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+describe.skipIf(!hasEmulators)("POST /api/admin/setup", () => {
+  beforeEach(resetEmulators);
+
+  it("rejects a missing or invalid ID token", async () => {
+    expect((await post(POST, null, { name: "Me" })).status).toBe(401);
+    expect((await post(POST, "not-a-token", { name: "Me" })).status).toBe(401);
+  });
+
+  it("makes the first caller super-admin and records the claim", async () => {
+    const { uid, token } = await signInAs("first@example.com", null);
+    const res = await post(POST, token, { name: " First " });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ roles: ["super_admin"], setupAvailable: false });
+    expect((await adminDb().doc(`login/${uid}`).get()).data()).toMatchObject({ name: "First", roles: ["super_admin"], isAdmin: true });
+    expect((await adminDb().doc("config/setup").get()).data()?.superAdminUid).toBe(uid);
+  });
+
+  it("refuses a second claim", async () => {
+    const first = await signInAs("first@example.com", null);
+    const second = await signInAs("second@example.com", null);
+    expect((await post(POST, first.token, {})).status).toBe(200);
+    const res = await post(POST, second.token, {});
+    expect(res.status).toBe(409);
+    expect((await adminDb().doc(`login/${second.uid}`).get()).exists).toBe(false);
+  });
+
+  it("refuses a claim once any admin exists", async () => {
+    await adminDb().doc("login/existing").set({ email: "admin@example.com", ...rolesPayload(["moderator"]) });
+    const { token } = await signInAs("late@example.com", null);
+    expect((await post(POST, token, {})).status).toBe(409);
+  });
+});
@@ -0,0 +1,24 @@
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, ApiError, readJson, verifyCaller } from "../../../../lib/server/adminRequest";
+import { anyAdminQuery, setupRef } from "../../../../lib/server/setup";
+import { rolesPayload } from "../../../../lib/roles";
+import type { MeResponse } from "../../../../lib/adminApi";
+
+// Claims the first super-admin seat while the panel has no admins
+export const POST = adminRoute(async (request): Promise<MeResponse> => {
+  const caller = await verifyCaller(request);
+  const { name } = await readJson<{ name?: string }>(request);
+  const db = adminDb();
+
+  await db.runTransaction(async (tx) => {
+    const [setup, admins] = await Promise.all([tx.get(setupRef(db)), tx.get(anyAdminQuery(db))]);
+    if (setup.exists || !admins.empty) throw new ApiError(409, "Setup has already been completed by another admin");
+    tx.create(setupRef(db), { superAdminUid: caller.uid, completedAt: Date.now() });
+    tx.set(
+      db.doc(`login/${caller.uid}`),
+      { email: caller.email, name: name?.trim() || caller.email || "Admin", ...rolesPayload(["super_admin"]) },
+      { merge: true }
+    );
+  });
+  return { roles: ["super_admin"], setupAvailable: false };
+});
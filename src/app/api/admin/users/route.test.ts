@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { rolesPayload } from "../../../../lib/roles";
+import { auditEntries, hasEmulators, makeSignInStale, post, resetEmulators, signInAs } from "../../../../test/emulators";
+
+describe.skipIf(!hasEmulators)("POST /api/admin/users", () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await adminDb().doc("login/player").set({ email: "player@example.com", name: "Player", postapproval: false });
+    await adminDb().doc("login/other").set({ email: "other@example.com", name: "Other" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const update = (id = "player") => ({ id, flags: { postapproval: true } });
+
+  it("rejects a missing or invalid ID token", async () => {
+    expect((await post(POST, null, { updates: [update()] })).status).toBe(401);
+    expect((await post(POST, "not-a-token", { updates: [update()] })).status).toBe(401);
+  });
+
+  it("refuses callers without the rights section", async () => {
+    const player = await signInAs("me@example.com");
+    const host = await signInAs("host@example.com", rolesPayload(["quiz_host"]));
+    expect((await post(POST, player.token, { updates: [update()] })).status).toBe(403);
+    expect((await post(POST, host.token, { updates: [update()] })).status).toBe(403);
+    expect((await adminDb().doc("login/player").get()).data()?.postapproval).toBe(false);
+  });
+
+  it("saves flags for moderators and logs what changed", async () => {
+    const { uid, token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    const res = await post(POST, token, { updates: [update()] });
+    expect(res.body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect((await adminDb().doc("login/player").get()).data()?.postapproval).toBe(true);
+    expect(await auditEntries("rights.save")).toEqual([
+      expect.objectContaining({ target: "login/player", targetLabel: "Player", actorUid: uid, before: { postapproval: false }, after: { postapproval: true } }),
+    ]);
+  });
+
+  it("logs nothing when a row already has the values", async () => {
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    expect((await post(POST, token, { updates: [{ id: "player", flags: { postapproval: false } }] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect(await auditEntries("rights.save")).toEqual([]);
+  });
+
+  it("reports each row of a batched save on its own, in request order", async () => {
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    const res = await post(POST, token, { updates: [update(), update("missing"), update("other"), update()] });
+    expect(res.body).toEqual({
+      results: [
+        { id: "player", ok: true },
+        { id: "missing", ok: false, error: "User not found" },
+        { id: "other", ok: true },
+        { id: "player", ok: false, error: "User appears twice in this request" },
+      ],
+    });
+    expect((await adminDb().doc("login/other").get()).data()?.postapproval).toBe(true);
+    expect(await auditEntries("rights.save")).toHaveLength(2);
+  });
+
+  it("accepts flags from the permission schema and refuses unknown ones", async () => {
+    await adminDb().doc("config/permissionSchema").set({
+      flags: [{ key: "beta_access", label: "Beta", description: "", group: "Access" }],
+      keys: ["postapproval", "beta_access"],
+    });
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    expect((await post(POST, token, { updates: [{ id: "player", flags: { beta_access: true } }] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect((await adminDb().doc("login/player").get()).data()?.beta_access).toBe(true);
+    expect((await post(POST, token, { updates: [{ id: "player", flags: { isadmin: true } }] })).body).toEqual({
+      results: [{ id: "player", ok: false, error: 'Unknown permission "isadmin"' }],
+    });
+  });
+
+  it("sets and clears a user's preset", async () => {
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    expect((await post(POST, token, { updates: [{ ...update(), preset: "editors" }] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect((await adminDb().doc("login/player").get()).data()?.preset).toBe("editors");
+    expect((await post(POST, token, { updates: [{ ...update(), preset: null }] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect((await adminDb().doc("login/player").get()).data()?.preset).toBeNull();
+    expect((await post(POST, token, { updates: [{ ...update(), preset: 42 }] })).body).toEqual({ results: [{ id: "player", ok: false, error: "Invalid preset" }] });
+  });
+
+  it("refuses a row another admin changed since the caller loaded it", async () => {
+    const { token } = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    const stale = { ...update(), expected: { flags: { postapproval: true } } };
+    expect((await post(POST, token, { updates: [stale] })).body).toEqual({
+      results: [{ id: "player", ok: false, error: "Another admin changed this user; review their change and save again" }],
+    });
+    expect((await adminDb().doc("login/player").get()).data()?.postapproval).toBe(false);
+
+    const fresh = { ...update(), expected: { flags: { postapproval: false } } };
+    expect((await post(POST, token, { updates: [fresh] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+  });
+
+  it("keeps role changes to super-admins", async () => {
+    const mod = await signInAs("mod@example.com", rolesPayload(["moderator"]));
+    const res = await post(POST, mod.token, { updates: [{ ...update(), roles: ["quiz_host"] }] });
+    expect(res.body).toEqual({ results: [{ id: "player", ok: false, error: "Only super-admins can change roles" }] });
+
+    const boss = await signInAs("boss@example.com", rolesPayload(["super_admin"]));
+    expect((await post(POST, boss.token, { updates: [{ ...update(), roles: ["quiz_host"] }] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+    expect((await adminDb().doc("login/player").get()).data()).toMatchObject({ roles: ["quiz_host"], isAdmin: true });
+  });
+
+  it("asks for a recent sign-in before bulk changes and role grants", async () => {
+    const { token } = await signInAs("boss@example.com", rolesPayload(["super_admin"]));
+    makeSignInStale();
+    for (const updates of [[update(), update("other")], [{ ...update(), roles: ["moderator"] }]]) {
+      const res = await post(POST, token, { updates });
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe("reauth-required");
+    }
+    // a single flag change doesn't need one
+    expect((await post(POST, token, { updates: [update()] })).body).toEqual({ results: [{ id: "player", ok: true }] });
+  });
+});
@@ -0,0 +1,132 @@
+import type { DocumentData, DocumentReference, DocumentSnapshot, Firestore, Transaction, WriteBatch } from "firebase-admin/firestore";
+import { adminDb } from "../../../../lib/server/firebaseAdmin";
+import { adminRoute, ApiError, readJson, requireRecentAuth, requireSection } from "../../../../lib/server/adminRequest";
+import type { Caller } from "../../../../lib/server/adminRequest";
+import { logAudit } from "../../../../lib/server/audit";
+import { canAccess, rolesOf, rolesPayload, sameRoles } from "../../../../lib/roles";
+import { pickPermissionFlags } from "../../../../lib/permissions";
+import { loadPermissionKeys } from "../../../../lib/server/permissionSchema";
+import type { RowResult, UserUpdate, UsersResponse } from "../../../../lib/adminApi";
+
+const MAX_UPDATES = 500;
+// Each changed user is an update plus its audit entry; a batch holds 500 writes
+const USERS_PER_BATCH = 200;
+
+type Expected = NonNullable<UserUpdate["expected"]>;
+type Prepared = { index: number; id: string; ref: DocumentReference; data: Record<string, unknown>; expected?: Expected };
+
+const prepare = (caller: Caller, db: Firestore, flagKeys: string[], u: UserUpdate, index: number): Prepared => {
+  if (typeof u?.id !== "string" || !u.id || u.id.includes("/")) throw new Error("Invalid user id");
+  const data: Record<string, unknown> = pickPermissionFlags(u.flags || {}, flagKeys);
+  if (u.preset !== undefined) {
+    if (u.preset !== null && (typeof u.preset !== "string" || u.preset.length > 100)) throw new Error("Invalid preset");
+    data.preset = u.preset || null;
+  }
+  if (u.roles !== undefined) {
+    if (!canAccess(caller.roles, "roles")) throw new Error("Only super-admins can change roles");
+    const roles = rolesOf({ roles: u.roles });
+    if (u.id === caller.uid && !roles.includes("super_admin")) throw new Error("You can't remove your own super-admin role");
+    Object.assign(data, rolesPayload(roles));
+  }
+  return { index, id: u.id, ref: db.doc(`login/${u.id}`), data, expected: u.expected };
+};
+
+// False when another admin changed one of the edited fields after the caller loaded it
+const matchesExpected = (current: DocumentData, expected: Expected) =>
+  Object.entries(expected.flags || {}).every(([k, v]) => !!current[k] === !!v) &&
+  (expected.preset === undefined || (current.preset ?? null) === expected.preset) &&
+  (expected.roles === undefined || sameRoles(rolesOf(current), rolesOf({ roles: expected.roles })));
+
+// Queues the update and its audit entry; false when the row already has these values
+const queueWrite = (db: Firestore, writer: Transaction | WriteBatch, caller: Caller, p: Prepared, snap: DocumentSnapshot<DocumentData>) => {
+  if (!snap.exists) throw new Error("User not found");
+  const current = snap.data() || {};
+  // a missing flag reads as false
+  const was = (k: string) => (typeof p.data[k] === "boolean" ? !!current[k] : current[k] ?? null);
+  const changed = Object.keys(p.data).filter((k) => JSON.stringify(was(k)) !== JSON.stringify(p.data[k]));
+  if (changed.length === 0) return false;
+  if (p.expected && !matchesExpected(current, p.expected)) throw new Error("Another admin changed this user; review their change and save again");
+
+  // the precondition makes the write fail if the doc changed since it was read,
+  // so the audit entry's "before" is always what was overwritten
+  if ("commit" in writer) writer.update(p.ref, p.data, { lastUpdateTime: snap.updateTime! });
+  else writer.update(p.ref, p.data);
+  logAudit(db, writer, caller, {
+    action: "rights.save",
+    target: p.ref.path,
+    targetLabel: String(current.name || current.email || p.id),
+    before: Object.fromEntries(changed.map((k) => [k, was(k)])),
+    after: Object.fromEntries(changed.map((k) => [k, p.data[k]])),
+  });
+  return true;
+};
+
+// Saves permission flags (and, for super-admins, roles) on login docs in batches.
+// The response has one result per requested row, in request order: if a batch fails,
+// its rows are retried one by one so only the rows that really failed are reported.
+export const POST = adminRoute(async (request): Promise<UsersResponse> => {
+  const caller = await requireSection(request, "rights");
+  const { updates } = await readJson<{ updates?: UserUpdate[] }>(request);
+  if (!Array.isArray(updates) || updates.length === 0) throw new ApiError(400, "No updates given");
+  if (updates.length > MAX_UPDATES) throw new ApiError(400, `At most ${MAX_UPDATES} users per request`);
+  // bulk changes and role grants
+  if (updates.length > 1 || updates.some((u) => u?.roles !== undefined)) requireRecentAuth(caller);
+  const db = adminDb();
+  const flagKeys = await loadPermissionKeys(db);
+
+  const results: RowResult[] = updates.map((u) => ({ id: String(u?.id), ok: false }));
+  const fail = (index: number, err: unknown) => {
+    results[index] = { id: results[index].id, ok: false, error: (err as Error).message || "Failed to save" };
+  };
+  const succeed = (index: number) => {
+    results[index] = { id: results[index].id, ok: true };
+  };
+
+  const prepared: Prepared[] = [];
+  const seen = new Set<string>();
+  updates.forEach((u, index) => {
+    try {
+      const p = prepare(caller, db, flagKeys, u, index);
+      if (seen.has(p.id)) throw new Error("User appears twice in this request");
+      seen.add(p.id);
+      prepared.push(p);
+    } catch (err) {
+      fail(index, err);
+    }
+  });
+
+  for (let i = 0; i < prepared.length; i += USERS_PER_BATCH) {
+    const chunk = prepared.slice(i, i + USERS_PER_BATCH);
+    const snaps = await db.getAll(...chunk.map((p) => p.ref));
+    const batch = db.batch();
+    const queued: Prepared[] = [];
+    chunk.forEach((p, j) => {
+      try {
+        if (queueWrite(db, batch, caller, p, snaps[j])) queued.push(p);
+        else succeed(p.index);
+      } catch (err) {
+        fail(p.index, err);
+      }
+    });
+    if (queued.length === 0) continue;
+
+    try {
+      await batch.commit();
+      queued.forEach((p) => succeed(p.index));
+    } catch (batchErr) {
+      console.warn("Rights batch failed, saving its rows one by one:", batchErr);
+      for (const p of queued) {
+        try {
+          await db.runTransaction(async (tx) => {
+            queueWrite(db, tx, caller, p, await tx.get(p.ref));
+          });
+          succeed(p.index);
+        } catch (err) {
+          fail(p.index, err);
+        }
+      }
+    }
+  }
+
+  return { results };
+});
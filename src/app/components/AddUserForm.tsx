@@ -0,0 +1,90 @@
+"use client";
+import React, { useState } from "react";
+import { createAccount } from "../../lib/userAccounts";
+import type { AccountProfile } from "../../lib/adminApi";
+
+type Props = {
+  onCreated: (profile: AccountProfile) => void;
+};
+
+// Creates a Firebase Auth account and its login doc. Leaving the password empty
+// gives back a reset link the new user can choose one with.
+export default function AddUserForm({ onCreated }: Props) {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<string | null>(null);
+  const [resetLink, setResetLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setCreated(null);
+    setResetLink(null);
+    try {
+      const { profile, resetLink } = await createAccount(email.trim(), name.trim(), password || undefined);
+      if (profile) onCreated(profile);
+      setCreated(email.trim());
+      setResetLink(resetLink || null);
+      setEmail("");
+      setName("");
+      setPassword("");
+    } catch (err) {
+      console.error("Failed to create user:", err);
+      setError((err as Error).message || "Failed to create user");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ padding: "6px 12px", cursor: "pointer" }}>
+        Add user
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ width: "100%", padding: 12, backgroundColor: "#f5f5f5", color: "#202124", fontSize: 13 }}>
+      <form onSubmit={create} style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" required style={{ padding: "6px 10px" }} />
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" required style={{ padding: "6px 10px" }} />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          autoComplete="new-password"
+          style={{ padding: "6px 10px" }}
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+        >
+          {creating ? "Creating..." : "Create user"}
+        </button>
+        <button type="button" onClick={() => setOpen(false)} disabled={creating} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Close
+        </button>
+      </form>
+      {created ? (
+        <div style={{ marginTop: 8 }}>
+          Created {created}.
+          {resetLink ? (
+            <>
+              {" "}Send them this link to set a password:{" "}
+              <input readOnly value={resetLink} onFocus={(e) => e.target.select()} style={{ width: "60%" }} />
+            </>
+          ) : null}
+        </div>
+      ) : null}
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
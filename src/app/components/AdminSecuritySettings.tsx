@@ -0,0 +1,68 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { DEFAULT_ADMIN_SECURITY, saveAdminSecurity, subscribeAdminSecurity } from "../../lib/adminSecurity";
+import type { AdminSecurity } from "../../lib/adminSecurity";
+
+// Super-admin editor for the idle sign-out applied to every admin
+export default function AdminSecuritySettings() {
+  const [saved, setSaved] = useState<AdminSecurity>(DEFAULT_ADMIN_SECURITY);
+  // null while untouched, so remote updates show through
+  const [draft, setDraft] = useState<AdminSecurity | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeAdminSecurity(setSaved), []);
+
+  const settings = draft ?? saved;
+
+  const save = async () => {
+    if (!draft) return;
+    if (!(draft.idleMinutes >= 0) || !(draft.warningSeconds > 0)) {
+      setError("Minutes must be 0 or more and the warning at least 1 second");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await saveAdminSecurity(draft);
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to save admin security settings:", err);
+      setError((err as Error).message || "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 12, border: "1px solid #6e6969ff", padding: 12, backgroundColor: "#f5f5f5", color: "#202124" }}>
+      <label>
+        Sign admins out after{" "}
+        <input
+          type="number"
+          min={0}
+          value={settings.idleMinutes}
+          onChange={(e) => setDraft({ ...settings, idleMinutes: Number(e.target.value) })}
+          style={{ width: 60 }}
+        />{" "}
+        idle minutes (0 = never), warning{" "}
+        <input
+          type="number"
+          min={1}
+          value={settings.warningSeconds}
+          onChange={(e) => setDraft({ ...settings, warningSeconds: Number(e.target.value) })}
+          style={{ width: 60 }}
+        />{" "}
+        seconds before
+      </label>
+      <button
+        onClick={save}
+        disabled={saving || draft == null}
+        style={{ marginLeft: 8, color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+      >
+        {saving ? "Saving..." : "Save"}
+      </button>
+      {error ? <div style={{ color: "red" }}>{error}</div> : null}
+    </div>
+  );
+}
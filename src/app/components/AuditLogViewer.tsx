@@ -0,0 +1,132 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import styles from "../page.module.css";
+import { AUDIT_ACTIONS, formatAuditValue, listAuditEntries } from "../../lib/audit";
+import type { AuditAction, AuditEntry } from "../../lib/audit";
+import { downloadRows } from "../../lib/excel";
+import type { ExportFormat } from "../../lib/excel";
+import ExportButtons from "./ExportButtons";
+
+// Read-only view of the audit trail, filterable by actor, target and action
+export default function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [target, setTarget] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    listAuditEntries()
+      .then((list) => {
+        if (mounted) setEntries(list);
+      })
+      .catch((err) => {
+        console.error("Failed to load audit log:", err);
+        if (mounted) setError((err as Error).message || "Failed to load audit log");
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadKey]);
+
+  const actors = useMemo(() => Array.from(new Set(entries.map((e) => e.actorEmail || e.actorUid))).sort(), [entries]);
+
+  const filtered = useMemo(() => {
+    const needle = target.trim().toLowerCase();
+    return entries.filter(
+      (e) =>
+        (!actor || (e.actorEmail || e.actorUid) === actor) &&
+        (!action || e.action === action) &&
+        (!needle || e.target.toLowerCase().includes(needle) || e.targetLabel.toLowerCase().includes(needle))
+    );
+  }, [entries, actor, action, target]);
+
+  const exportEntries = async (format: ExportFormat) => {
+    const rows = filtered.map((e) => ({
+      at: new Date(e.at).toISOString(),
+      action: e.action,
+      actor: e.actorEmail || e.actorUid,
+      target: e.target,
+      targetLabel: e.targetLabel,
+      before: formatAuditValue(e.before),
+      after: formatAuditValue(e.after),
+      note: e.note,
+    }));
+    downloadRows(rows, ["at", "action", "actor", "target", "targetLabel", "before", "after", "note"], "audit-log", format);
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <h4 style={{ margin: 0, color: "#202124" }}>Audit Log</h4>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={() => setReloadKey((k) => k + 1)} disabled={loading} style={{ padding: "4px 10px", cursor: "pointer" }}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+          <ExportButtons label="audit log" onExport={exportEntries} />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 8, fontSize: 13, color: "#222" }}>
+        <select value={actor} onChange={(e) => setActor(e.target.value)}>
+          <option value="">All actors</option>
+          {actors.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+        <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | "")}>
+          <option value="">All actions</option>
+          {(Object.keys(AUDIT_ACTIONS) as AuditAction[]).map((a) => (
+            <option key={a} value={a}>
+              {AUDIT_ACTIONS[a]}
+            </option>
+          ))}
+        </select>
+        <input value={target} onChange={(e) => setTarget(e.target.value)} placeholder="Target (name, email or path)" style={{ flex: 1, minWidth: 180 }} />
+        <span style={{ alignSelf: "center", color: "#666" }}>
+          {filtered.length} of {entries.length} entries
+        </span>
+      </div>
+
+      {error ? <div style={{ color: "red", marginBottom: 8 }}>{error}</div> : null}
+      <div style={{ maxHeight: 400, overflowY: "auto" }}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Action</th>
+              <th>Actor</th>
+              <th>Target</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.map((e) => (
+              <tr key={e.id}>
+                <td style={{ whiteSpace: "nowrap" }}>{new Date(e.at).toLocaleString()}</td>
+                <td>{AUDIT_ACTIONS[e.action] || e.action}</td>
+                <td>{e.actorEmail || e.actorUid}</td>
+                <td title={e.target}>
+                  {e.targetLabel}
+                  {e.note ? <div style={{ fontSize: 11, color: "#666" }}>{e.note}</div> : null}
+                </td>
+                <td style={{ fontSize: 12, wordBreak: "break-word" }}>{formatAuditValue(e.before)}</td>
+                <td style={{ fontSize: 12, wordBreak: "break-word" }}>{formatAuditValue(e.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
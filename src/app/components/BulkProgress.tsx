@@ -0,0 +1,46 @@
+"use client";
+import React from "react";
+import type { BulkFailure, BulkProgress as Progress } from "../../lib/bulkWrite";
+
+type Props = {
+  progress: Progress | null;
+  failures: BulkFailure[];
+  onRetryFailed?: () => void;
+  retrying?: boolean;
+};
+
+// Progress bar for a running bulk operation plus the list of writes that failed
+export default function BulkProgress({ progress, failures, onRetryFailed, retrying }: Props) {
+  if (!progress && failures.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 8, fontSize: 13, color: "#222" }}>
+      {progress && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <progress value={progress.done} max={progress.total || 1} style={{ flex: 1 }} />
+          <span>
+            {progress.done}/{progress.total}
+            {progress.failed > 0 ? <span style={{ color: "red" }}> ({progress.failed} failed)</span> : null}
+          </span>
+        </div>
+      )}
+      {failures.length > 0 && (
+        <div style={{ marginTop: 8, padding: 8, border: "1px solid #F44336", borderRadius: 8, backgroundColor: "#fdecea" }}>
+          <div style={{ fontWeight: 600, color: "#b71c1c", marginBottom: 4 }}>{failures.length} writes failed:</div>
+          <ul style={{ margin: "0 0 8px 20px", maxHeight: 160, overflowY: "auto" }}>
+            {failures.map((f) => (
+              <li key={f.op.ref.path}>
+                {f.op.type === "delete" ? "Delete" : "Write"} {f.op.label}: {f.error}
+              </li>
+            ))}
+          </ul>
+          {onRetryFailed && (
+            <button onClick={onRetryFailed} disabled={retrying} style={{ padding: "4px 10px", cursor: retrying ? "not-allowed" : "pointer" }}>
+              {retrying ? "Retrying..." : `Retry ${failures.length} failed`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { formatCityList, parseCityList, saveCities, subscribeCities } from "../../lib/cities";
+
+// Admin-maintained canonical city list used by the WOF/WOP import cleanup
+export default function CityListEditor() {
+  const [savedText, setSavedText] = useState("");
+  // null while the admin hasn't touched the list, so remote updates show through
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeCities((entries) => setSavedText(formatCityList(entries))), []);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveCities(parseCityList(draft ?? savedText));
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to save city list:", err);
+      setError((err as Error).message || "Failed to save city list");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <h4 style={{ margin: "0 0 8px 0", color: "#202124" }}>Canonical City List</h4>
+      <p style={{ margin: "0 0 8px 0", color: "#666", fontSize: 14 }}>
+        One city per line, canonical spelling first, then other spellings separated by commas, e.g. <code>Kanpur, कानपुर</code>.
+        Imported and edited WOF/WOP records use the canonical spelling.
+      </p>
+      <textarea
+        value={draft ?? savedText}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={6}
+        style={{ width: "100%", padding: 8, fontSize: 14, color: "#202124" }}
+      />
+      <button
+        onClick={save}
+        disabled={saving || draft == null}
+        style={{ marginTop: 8, color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+      >
+        {saving ? "Saving..." : "Save city list"}
+      </button>
+      {error ? <div style={{ color: "red" }}>{error}</div> : null}
+    </div>
+  );
+}
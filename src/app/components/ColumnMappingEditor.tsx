@@ -0,0 +1,32 @@
+"use client";
+import React from "react";
+import type { ColumnMapping, FieldSpec } from "../../lib/wallImport";
+
+type Props = {
+  fields: FieldSpec[];
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+};
+
+// One select per target field, choosing which sheet header feeds it
+export default function ColumnMappingEditor({ fields, headers, mapping, onChange }: Props) {
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 12, marginBottom: 12 }}>
+      {fields.map((f) => (
+        <label key={f.key} style={{ color: "#202124", fontSize: 13 }}>
+          {f.label}
+          {f.required ? " *" : ""}:{" "}
+          <select value={mapping[f.key] || ""} onChange={(e) => onChange({ ...mapping, [f.key]: e.target.value })}>
+            <option value="">(not mapped)</option>
+            {headers.map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+import React, { useState } from "react";
+import type { ExportFormat } from "../../lib/excel";
+
+type Props = {
+  label: string;
+  onExport: (format: ExportFormat) => Promise<void>;
+};
+
+export default function ExportButtons({ label, onExport }: Props) {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (exporting) return;
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (err) {
+      console.error(`Failed to export ${label}:`, err);
+      setError((err as Error).message || `Failed to export ${label}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const buttonStyle = {
+    color: "white",
+    backgroundColor: exporting ? "#9c9c9c" : "#28A745",
+    border: "none",
+    padding: "6px 12px",
+    cursor: exporting ? "not-allowed" : "pointer",
+  };
+
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+      <button onClick={() => handleExport("xlsx")} disabled={exporting} style={buttonStyle}>
+        {exporting ? "Exporting..." : `Export ${label} .xlsx`}
+      </button>
+      <button onClick={() => handleExport("csv")} disabled={exporting} style={buttonStyle}>
+        Export CSV
+      </button>
+      {error ? <span style={{ color: "red", fontSize: 12 }}>{error}</span> : null}
+    </span>
+  );
+}
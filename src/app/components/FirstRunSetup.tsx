@@ -0,0 +1,57 @@
+"use client";
+import React, { useState } from "react";
+import { auth } from "../../../firebase";
+import { callAdminApi } from "../../lib/adminApi";
+import type { MeResponse } from "../../lib/adminApi";
+
+type Props = {
+  onClaimed: () => void;
+};
+
+// Shown only while the panel has no admins at all: the signed-in account can claim
+// the first super-admin seat, after which everyone else is appointed from the panel.
+export default function FirstRunSetup({ onClaimed }: Props) {
+  const [name, setName] = useState(auth.currentUser?.displayName || "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const claim = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const user = auth.currentUser;
+    if (!user || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await callAdminApi<MeResponse>("setup", { name: name.trim() });
+      onClaimed();
+    } catch (err) {
+      console.error("First-run setup failed:", err);
+      setError((err as Error).message || "Setup failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <h4 style={{ margin: "0 0 8px 0", color: "#202124" }}>First-run Setup</h4>
+      <p style={{ margin: "0 0 8px 0", color: "#666", fontSize: 14 }}>
+        This admin panel has no administrators yet. Signed in as <b>{auth.currentUser?.email}</b>, you can become its
+        super-admin. This can only be done once.
+      </p>
+      <form onSubmit={claim} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <label style={{ color: "#202124" }}>
+          Your name: <input value={name} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          style={{ color: "white", backgroundColor: saving ? "#9c9c9c" : "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+        >
+          {saving ? "Setting up..." : "Become super-admin"}
+        </button>
+      </form>
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { DEFAULT_ADMIN_SECURITY, subscribeAdminSecurity } from "../../lib/adminSecurity";
+import type { AdminSecurity } from "../../lib/adminSecurity";
+
+type Props = {
+  onSignOut: (reason: string) => void;
+};
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const;
+
+// Signs the admin out after `idleMinutes` without input, counting down for the last
+// `warningSeconds`. Any input, including the button, resets the timer.
+export default function IdleSignOut({ onSignOut }: Props) {
+  const [settings, setSettings] = useState<AdminSecurity>(DEFAULT_ADMIN_SECURITY);
+  // seconds left while the warning shows
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const onSignOutRef = useRef(onSignOut);
+  onSignOutRef.current = onSignOut;
+
+  useEffect(() => subscribeAdminSecurity(setSettings), []);
+
+  useEffect(() => {
+    if (settings.idleMinutes <= 0) return;
+    const touch = () => {
+      lastActivity.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, touch, { passive: true }));
+    const timer = setInterval(() => {
+      const left = settings.idleMinutes * 60_000 - (Date.now() - lastActivity.current);
+      if (left <= 0) {
+        clearInterval(timer);
+        setRemaining(null);
+        onSignOutRef.current(`Signed out after ${settings.idleMinutes} minutes without activity`);
+        return;
+      }
+      setRemaining(left <= settings.warningSeconds * 1000 ? Math.ceil(left / 1000) : null);
+    }, 1000);
+    return () => {
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, touch));
+      clearInterval(timer);
+      setRemaining(null);
+    };
+  }, [settings]);
+
+  if (remaining == null) return null;
+
+  return (
+    <div style={{ position: "fixed", inset: 0, backgroundColor: "rgba(0,0,0,0.45)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 999 }}>
+      <div style={{ backgroundColor: "#fff", color: "#202124", borderRadius: 12, padding: 24, width: 360, textAlign: "center" }}>
+        <h4 style={{ marginTop: 0 }}>Still there?</h4>
+        <p>
+          You will be signed out in <b>{remaining}s</b> for inactivity.
+        </p>
+        <button
+          onClick={() => {
+            lastActivity.current = Date.now();
+            setRemaining(null);
+          }}
+          style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+        >
+          Stay signed in
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+import React from "react";
+import styles from "../page.module.css";
+import type { FieldSpec, PreviewRow } from "../../lib/wallImport";
+
+type Props = {
+  fields: FieldSpec[];
+  preview: PreviewRow[];
+};
+
+// Parsed sheet rows after mapping and cleanup; invalid rows in red, cleaned cells in blue
+export default function ImportPreviewTable({ fields, preview }: Props) {
+  return (
+    <div style={{ maxHeight: 320, overflow: "auto", marginBottom: 12 }}>
+      <table className={styles.table} style={{ fontSize: 13 }}>
+        <thead>
+          <tr>
+            <th>Row</th>
+            {fields.map((f) => (
+              <th key={f.key}>{f.label}</th>
+            ))}
+            <th>Cleaned up</th>
+            <th>Problems</th>
+          </tr>
+        </thead>
+        <tbody>
+          {preview.map((r) => (
+            <tr key={r.index} style={r.issues.length > 0 ? { backgroundColor: "#fdecea" } : undefined}>
+              {/* +2: sheet_to_json skips the header row and Excel rows are 1-based */}
+              <td>{r.index + 2}</td>
+              {fields.map((f) => {
+                const change = r.changes.find((c) => c.field === f.key);
+                return (
+                  <td
+                    key={f.key}
+                    title={change ? `Sheet value: "${change.before}"` : undefined}
+                    style={{
+                      padding: 6,
+                      wordBreak: "break-all",
+                      color: r.issues.some((i) => i.field === f.key) ? "red" : undefined,
+                      backgroundColor: change ? "#e3f2fd" : undefined,
+                    }}
+                  >
+                    {r.record[f.key] ?? ""}
+                  </td>
+                );
+              })}
+              <td style={{ padding: 6, color: "#0d47a1", textAlign: "left" }}>
+                {r.changes.map((c) => `${c.field}: "${c.before}" → "${c.after}"`).join("; ")}
+              </td>
+              <td style={{ padding: 6, color: "red", textAlign: "left" }}>
+                {r.issues.map((i) => i.message).join("; ")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
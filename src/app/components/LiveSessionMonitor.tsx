@@ -0,0 +1,323 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { db } from "../../../firebase";
+import { denyLifeline, endSession, lockAnswer, nextQuestion, pushQuestion, resetSession, revealAnswer, setTimerPaused, triggerLifeline } from "../../lib/liveHost";
+import { canRunControl, LIFELINES, parseLiveSession } from "../../lib/liveGame";
+import type { HostControl, LiveSession } from "../../lib/liveGame";
+import QuestionPicker from "./QuestionPicker";
+
+type Props = {
+  sessionId: string;
+  sessionName: string;
+};
+
+const controlButton = (enabled: boolean): React.CSSProperties => ({
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #450693",
+  backgroundColor: enabled ? "#fff" : "#eee",
+  color: enabled ? "#450693" : "#9c9c9c",
+  fontWeight: 600,
+  cursor: enabled ? "pointer" : "not-allowed",
+});
+
+// Watches one live quiz session and drives it: lock, reveal, next question, lifelines,
+// timer, reset and end. Each control is enabled only in the phases it is valid in.
+export default function LiveSessionMonitor({ sessionId, sessionName }: Props) {
+  const [liveSession, setLiveSession] = useState<LiveSession | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [busy, setBusy] = useState<HostControl | null>(null);
+  const [controlError, setControlError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const sessionRef = doc(db, "live_sessions", sessionId);
+    const unsubscribe = onSnapshot(
+      sessionRef,
+      (snapshot) => {
+        if (snapshot.exists()) {
+          const parsed = parseLiveSession(snapshot.data());
+          setLiveSession(parsed.session);
+          setProblems(parsed.problems);
+        } else {
+          setLiveSession(null);
+          setProblems([]);
+        }
+      },
+      (error) => {
+        console.error("Failed to subscribe to live session:", error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  // every control is checked against the state on screen, so a stale click is refused
+  const run = async (control: HostControl, action: (seen: LiveSession) => Promise<void>) => {
+    if (busy || !liveSession) return;
+    setBusy(control);
+    setControlError(null);
+    try {
+      await action(liveSession);
+    } catch (error) {
+      console.error(`Failed to run ${control}:`, error);
+      setControlError((error as Error).message || "Failed to update the session. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const allowed = (control: HostControl) => !busy && !!liveSession && canRunControl(control, liveSession);
+
+  const reset = () => {
+    if (!window.confirm(`Reset "${sessionName}"? The current question, answer and lifelines are cleared.`)) return;
+    run("reset", (seen) => resetSession(sessionId, seen));
+  };
+
+  const end = () => {
+    if (!window.confirm(`End "${sessionName}"? The game stops and the session is archived.`)) return;
+    run("end", (seen) => endSession(sessionId, seen));
+  };
+
+  const phase = liveSession?.phase || "waiting";
+  const answerIndex = liveSession?.question?.answerIndex ?? null;
+  const canLock = allowed("lock");
+
+  return (
+    <div
+      style={{
+        marginBottom: 24,
+        border: "1px solid #d9d9d9",
+        borderRadius: 12,
+        padding: 16,
+        backgroundColor: "#bbbb",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+        <h4 style={{ margin: 0, color:'#202124' }}>Live Quiz Session</h4>
+        <span style={{ fontSize: 12, color: "#666" }}>Session: {sessionName}</span>
+      </div>
+
+      {!liveSession ? (
+        <p style={{ color: "#777", textAlign: "center", padding: 20 }}>
+          No active quiz session. Waiting for player to start...
+        </p>
+      ) : (
+        <div>
+          <div style={{ marginBottom: 16 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 8 }}>
+              <span style={{ fontWeight: 600, color: "#222" }}>Phase: {phase}</span>
+              {liveSession.activePlayer && (
+                <span style={{ color: "#450693", fontWeight: 600 }}>
+                  Player: {liveSession.activePlayer}
+                </span>
+              )}
+            </div>
+            {liveSession.group && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ fontWeight: 600, color: "#222" }}>Group: {liveSession.group}</span>
+              </div>
+            )}
+            {liveSession.timer !== null && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ fontWeight: 600, color: "#222" }}>
+                  Timer: {typeof liveSession.timer === "number" ? `${liveSession.timer}s` : liveSession.timer}
+                  {liveSession.timerPaused ? " (paused)" : ""}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {liveSession.question && (
+            <div style={{ marginBottom: 16 }}>
+              <h5 style={{ margin: "0 0 12px 0", color: "#222", fontSize: 16 }}>Question:</h5>
+              <p style={{ 
+                padding: 12, 
+                backgroundColor: "#fff", 
+                borderRadius: 8, 
+                border: "1px solid #eee",
+                color: "#222",
+                fontSize: 15,
+                lineHeight: 1.5
+              }}>
+                {liveSession.question.text}
+              </p>
+            </div>
+          )}
+
+          {liveSession.options.length > 0 && (
+            <div style={{ marginBottom: 16 }}>
+              <h5 style={{ margin: "0 0 12px 0", color: "#222", fontSize: 16 }}>Options:</h5>
+              <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                {liveSession.options.map((opt, idx) => {
+                  const isSelected = liveSession.selected === idx;
+                  const isCorrect = answerIndex === idx;
+                  const isRevealed = phase === "result" && isCorrect && !isSelected;
+                  const isHidden = opt === "";
+
+                  return (
+                    <div
+                      key={idx}
+                      style={{
+                        padding: 12,
+                        backgroundColor: isSelected 
+                          ? (liveSession.adminLocked 
+                              ? (isCorrect ? "#4CAF50" : "#F44336")
+                              : "#FFC400")
+                          : isRevealed ? "#D4EDDA" : "#fff",
+                        borderRadius: 8,
+                        border: `2px solid ${
+                          isSelected
+                            ? (liveSession.adminLocked
+                                ? (isCorrect ? "#4CAF50" : "#F44336")
+                                : "#FFC400")
+                            : isRevealed ? "#4CAF50" : "#ddd"
+                        }`,
+                        color: isSelected ? "#fff" : "#222",
+                        fontWeight: isSelected ? 600 : 400,
+                        opacity: isHidden ? 0.3 : 1,
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 8,
+                      }}
+                    >
+                      <span style={{ 
+                        fontWeight: 700, 
+                        minWidth: 24,
+                        color: isSelected ? "#fff" : "#450693"
+                      }}>
+                        {String.fromCharCode(65 + idx)}.
+                      </span>
+                      <span style={{ flex: 1 }}>
+                        {isHidden ? "(Hidden by 50:50)" : opt}
+                      </span>
+                      {isRevealed && <span style={{ fontSize: 18, color: "#4CAF50" }}>✓</span>}
+                      {isSelected && (
+                        <span style={{ fontSize: 18 }}>
+                          {liveSession.adminLocked 
+                            ? (isCorrect ? "✓" : "✗")
+                            : "🔒"}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {liveSession.userLocked && !liveSession.adminLocked && (
+            <div style={{ 
+              marginBottom: 16, 
+              padding: 12, 
+              backgroundColor: "#FFF3CD", 
+              borderRadius: 8,
+              border: "1px solid #FFC107"
+            }}>
+              <p style={{ margin: 0, color: "#856404", fontWeight: 600 }}>
+                Player has selected an answer. Click Lock Answer to proceed with checking.
+              </p>
+            </div>
+          )}
+
+          {liveSession.adminLocked && (
+            <div style={{ 
+              marginBottom: 16, 
+              padding: 12, 
+              backgroundColor: "#D4EDDA", 
+              borderRadius: 8,
+              border: "1px solid #28A745"
+            }}>
+              <p style={{ margin: 0, color: "#155724", fontWeight: 600 }}>
+                Answer locked! The app will now check if the answer is correct.
+              </p>
+            </div>
+          )}
+
+          <button
+            onClick={() => run("lock", (seen) => lockAnswer(sessionId, seen))}
+            disabled={!canLock}
+            style={{
+              width: "100%",
+              padding: "12px 16px",
+              borderRadius: 8,
+              border: "none",
+              backgroundColor: canLock ? "#450693" : "#9c9c9c",
+              color: "#fff",
+              fontWeight: 600,
+              fontSize: 16,
+              cursor: canLock ? "pointer" : "not-allowed",
+            }}
+          >
+            {busy === "lock"
+              ? "Locking..."
+              : liveSession.adminLocked
+                ? "Answer Locked"
+                : "Lock Answer"}
+          </button>
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))", gap: 8, marginTop: 12 }}>
+            <button onClick={() => run("reveal", (seen) => revealAnswer(sessionId, seen))} disabled={!allowed("reveal")} style={controlButton(allowed("reveal"))}>
+              {busy === "reveal" ? "Revealing..." : "Reveal answer"}
+            </button>
+            <button onClick={() => run("next", (seen) => nextQuestion(sessionId, seen))} disabled={!allowed("next")} style={controlButton(allowed("next"))}>
+              {busy === "next" ? "Loading..." : phase === "waiting" ? "Start first question" : "Next question"}
+            </button>
+            {liveSession.timerPaused ? (
+              <button onClick={() => run("resume", (seen) => setTimerPaused(sessionId, seen, false))} disabled={!allowed("resume")} style={controlButton(allowed("resume"))}>
+                Resume timer
+              </button>
+            ) : (
+              <button onClick={() => run("pause", (seen) => setTimerPaused(sessionId, seen, true))} disabled={!allowed("pause")} style={controlButton(allowed("pause"))}>
+                Pause timer
+              </button>
+            )}
+            <button onClick={reset} disabled={!allowed("reset")} style={controlButton(allowed("reset"))}>
+              Reset session
+            </button>
+            <button onClick={end} disabled={!allowed("end")} style={{ ...controlButton(allowed("end")), borderColor: "#d93025", color: allowed("end") ? "#d93025" : "#9c9c9c" }}>
+              End session
+            </button>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h5 style={{ margin: "0 0 8px 0", color: "#222", fontSize: 14 }}>Lifelines</h5>
+            {LIFELINES.map(({ key, label }) => {
+              const status = liveSession.lifelines[key];
+              const canUse = allowed("lifeline") && status !== "used" && status !== "denied" && (key !== "fiftyFifty" || answerIndex !== null);
+              return (
+                <div key={key} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4, color: "#222", fontSize: 14 }}>
+                  <span style={{ flex: 1 }}>
+                    {label}{" "}
+                    <span style={{ color: status === "requested" ? "#d97706" : "#666", fontWeight: status === "requested" ? 600 : 400 }}>({status})</span>
+                  </span>
+                  <button onClick={() => run("lifeline", (seen) => triggerLifeline(sessionId, seen, key))} disabled={!canUse} style={controlButton(canUse)}>
+                    Use
+                  </button>
+                  <button
+                    onClick={() => run("lifeline", (seen) => denyLifeline(sessionId, seen, key))}
+                    disabled={!allowed("lifeline") || status !== "requested"}
+                    style={controlButton(allowed("lifeline") && status === "requested")}
+                  >
+                    Deny
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <QuestionPicker
+            enabled={allowed("push")}
+            pushing={busy === "push"}
+            onPush={(questionId) => run("push", (seen) => pushQuestion(sessionId, seen, questionId))}
+          />
+          {problems.length > 0 && (
+            <div style={{ color: "#856404", marginTop: 8, fontSize: 13 }}>Ignored unexpected session data: {problems.join("; ")}</div>
+          )}
+          {controlError && (
+            <div style={{ color: "red", marginTop: 8, fontSize: 14 }}>{controlError}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
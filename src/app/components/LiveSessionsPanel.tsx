@@ -0,0 +1,155 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import styles from "../page.module.css";
+import { createSession, LEGACY_SESSION_ID, setSessionArchived, subscribeSessions } from "../../lib/liveSessions";
+import type { SessionInfo } from "../../lib/liveSessions";
+import LiveSessionMonitor from "./LiveSessionMonitor";
+import SessionChat from "./SessionChat";
+
+type Props = {
+  // quiz hosts see the game and manage sessions; chat moderators see the chat rooms
+  canHost: boolean;
+  canChat: boolean;
+};
+
+// remembered per browser so a host keeps their layout across reloads
+const WATCHED_KEY = "liveSessions.watched";
+
+const loadWatched = (): string[] => {
+  if (typeof window === "undefined") return [LEGACY_SESSION_ID];
+  try {
+    const ids = JSON.parse(window.localStorage.getItem(WATCHED_KEY) || "null");
+    return Array.isArray(ids) ? ids.filter((id) => typeof id === "string") : [LEGACY_SESSION_ID];
+  } catch {
+    return [LEGACY_SESSION_ID];
+  }
+};
+
+// Lists the live sessions, creates and archives them, and shows the watched ones side by side
+export default function LiveSessionsPanel({ canHost, canChat }: Props) {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [watched, setWatched] = useState<string[]>(loadWatched);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeSessions(setSessions), []);
+
+  useEffect(() => {
+    window.localStorage.setItem(WATCHED_KEY, JSON.stringify(watched));
+  }, [watched]);
+
+  const toggleWatched = (id: string) => setWatched((prev) => (prev.includes(id) ? prev.filter((w) => w !== id) : [...prev, id]));
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const id = await createSession(newName.trim());
+      setWatched((prev) => [...prev, id]);
+      setNewName("");
+    } catch (err) {
+      console.error("Failed to create session:", err);
+      setError((err as Error).message || "Failed to create session");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const archive = async (session: SessionInfo, archived: boolean) => {
+    if (archived && !window.confirm(`Archive "${session.name}"? It disappears from the list; players can no longer be sent to it.`)) return;
+    setError(null);
+    try {
+      await setSessionArchived(session.id, archived);
+      if (archived) setWatched((prev) => prev.filter((w) => w !== session.id));
+    } catch (err) {
+      console.error("Failed to archive session:", err);
+      setError((err as Error).message || "Failed to archive session");
+    }
+  };
+
+  const listed = sessions.filter((s) => showArchived || !s.archived);
+  const watchedSessions = watched.map((id) => sessions.find((s) => s.id === id) || { id, name: id, createdAt: 0, createdBy: "", archived: false });
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <div style={{ marginBottom: 16, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa", color: "#202124" }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+          <h4 style={{ margin: 0 }}>Live Sessions</h4>
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} /> Show archived
+          </label>
+        </div>
+        {canHost && (
+          <form onSubmit={create} style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New session name, e.g. Round 2 - Group B" style={{ flex: 1, padding: "6px 10px" }} />
+            <button
+              type="submit"
+              disabled={creating || !newName.trim()}
+              style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+            >
+              {creating ? "Creating..." : "Create session"}
+            </button>
+          </form>
+        )}
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Watch</th>
+              <th>Session</th>
+              <th>Created</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {listed.map((s) => (
+              <tr key={s.id} style={s.archived ? { color: "#9c9c9c" } : undefined}>
+                <td>
+                  <input type="checkbox" checked={watched.includes(s.id)} onChange={() => toggleWatched(s.id)} title="Watch side by side" />
+                </td>
+                <td style={{ textAlign: "left" }}>
+                  {s.name}
+                  {s.name !== s.id ? <div style={{ fontSize: 11, color: "#666" }}>{s.id}</div> : null}
+                </td>
+                <td style={{ fontSize: 12 }}>{s.createdAt ? new Date(s.createdAt).toLocaleString() : "—"}</td>
+                <td style={{ whiteSpace: "nowrap" }}>
+                  <button onClick={() => setWatched([s.id])} style={{ padding: "2px 8px", cursor: "pointer" }}>
+                    Watch only this
+                  </button>
+                  {canHost && (
+                    <button onClick={() => archive(s, !s.archived)} style={{ padding: "2px 8px", cursor: "pointer", marginLeft: 4 }}>
+                      {s.archived ? "Unarchive" : "Archive"}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+      </div>
+
+      {watchedSessions.length === 0 ? (
+        <p style={{ color: "#777", textAlign: "center" }}>Tick a session above to watch it.</p>
+      ) : (
+        <div style={{ display: "flex", gap: 16, flexWrap: "wrap", alignItems: "flex-start" }}>
+          {watchedSessions.map((s) => (
+            <div key={s.id} style={{ flex: "1 1 420px", minWidth: 0 }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+                <b>{s.name}</b>
+                <button onClick={() => toggleWatched(s.id)} style={{ padding: "2px 8px", cursor: "pointer" }} title="Stop watching">
+                  ×
+                </button>
+              </div>
+              {canHost && <LiveSessionMonitor sessionId={s.id} sessionName={s.name} />}
+              {canChat && <SessionChat sessionId={s.id} sessionName={s.name} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import styles from "../page.module.css";
+import { DEFAULT_PERMISSIONS } from "../../lib/permissions";
+import type { PermissionDef } from "../../lib/permissions";
+import { subscribePermissionSchema } from "../../lib/permissionSchema";
+import { emptyPresetFlags, savePresets, subscribePresets } from "../../lib/permissionPresets";
+import type { PermissionPreset } from "../../lib/permissionPresets";
+
+// Create, edit and delete the named flag combinations offered in the rights table
+export default function PermissionPresetsEditor() {
+  const [saved, setSaved] = useState<PermissionPreset[]>([]);
+  // null while the admin hasn't touched the list, so remote updates show through
+  const [draft, setDraft] = useState<PermissionPreset[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [schema, setSchema] = useState<PermissionDef[]>(DEFAULT_PERMISSIONS);
+
+  useEffect(() => subscribePresets(setSaved), []);
+  useEffect(() => subscribePermissionSchema(setSchema), []);
+
+  const presets = draft ?? saved;
+  const update = (id: string, change: (p: PermissionPreset) => PermissionPreset) =>
+    setDraft(presets.map((p) => (p.id === id ? change(p) : p)));
+
+  const addPreset = () => setDraft([...presets, { id: Date.now().toString(36), name: "", flags: emptyPresetFlags(schema.map((d) => d.key)) }]);
+
+  const removePreset = (preset: PermissionPreset) => {
+    if (!window.confirm(`Delete preset "${preset.name || "unnamed"}"? Users given it will show as "unknown preset".`)) return;
+    setDraft(presets.filter((p) => p.id !== preset.id));
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    const names = draft.map((p) => p.name.trim());
+    if (names.some((n) => !n)) {
+      setError("Every preset needs a name");
+      return;
+    }
+    if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) {
+      setError("Preset names must be unique");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await savePresets(draft.map((p) => ({ ...p, name: p.name.trim() })));
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to save permission presets:", err);
+      setError((err as Error).message || "Failed to save presets");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h4 style={{ margin: 0, color: "#202124" }}>Permission Presets ({saved.length})</h4>
+        <button onClick={() => setOpen(!open)} style={{ padding: "4px 10px", cursor: "pointer" }}>
+          {open ? "Hide" : "Edit presets"}
+        </button>
+      </div>
+
+      {open && (
+        <div style={{ marginTop: 12 }}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Name</th>
+                {schema.map((d) => (
+                  <th key={d.key} title={d.description}>
+                    {d.label}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {presets.map((p) => (
+                <tr key={p.id}>
+                  <td>
+                    <input value={p.name} onChange={(e) => update(p.id, (x) => ({ ...x, name: e.target.value }))} placeholder="e.g. Quiz participant" />
+                  </td>
+                  {schema.map(({ key: f }) => (
+                    <td key={f}>
+                      <input
+                        type="checkbox"
+                        checked={!!p.flags[f]}
+                        onChange={() => update(p.id, (x) => ({ ...x, flags: { ...x.flags, [f]: !x.flags[f] } }))}
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button onClick={() => removePreset(p)} style={{ padding: "2px 8px", cursor: "pointer" }}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button onClick={addPreset} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Add preset
+            </button>
+            <button
+              onClick={save}
+              disabled={saving || draft == null}
+              style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+            >
+              {saving ? "Saving..." : "Save presets"}
+            </button>
+            {draft != null && (
+              <button onClick={() => setDraft(null)} disabled={saving} style={{ padding: "6px 12px", cursor: "pointer" }}>
+                Cancel
+              </button>
+            )}
+          </div>
+          {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import styles from "../page.module.css";
+import { DEFAULT_PERMISSIONS, validatePermissionDefs } from "../../lib/permissions";
+import type { PermissionDef } from "../../lib/permissions";
+import { savePermissionSchema, subscribePermissionSchema } from "../../lib/permissionSchema";
+
+// `isNew` rows are the only ones whose key can still be edited
+type DraftDef = PermissionDef & { isNew?: boolean };
+
+// Defines the permission flags shown in the rights table. Keys are fixed once saved,
+// since they are field names on every login doc.
+export default function PermissionSchemaEditor() {
+  const [saved, setSaved] = useState<PermissionDef[]>(DEFAULT_PERMISSIONS);
+  // null while the admin hasn't touched the list, so remote updates show through
+  const [draft, setDraft] = useState<DraftDef[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribePermissionSchema(setSaved), []);
+
+  const defs: DraftDef[] = draft ?? saved;
+  const update = (index: number, change: Partial<PermissionDef>) => setDraft(defs.map((d, i) => (i === index ? { ...d, ...change } : d)));
+
+  const move = (index: number, by: number) => {
+    const next = [...defs];
+    const [d] = next.splice(index, 1);
+    next.splice(index + by, 0, d);
+    setDraft(next);
+  };
+
+  const addFlag = () => setDraft([...defs, { key: "", label: "", description: "", group: defs[defs.length - 1]?.group || "", isNew: true }]);
+
+  const removeFlag = (index: number) => {
+    const d = defs[index];
+    if (!d.isNew && !window.confirm(`Remove "${d.label}"? Users keep the field, but it is no longer shown or editable.`)) return;
+    setDraft(defs.filter((_, i) => i !== index));
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    const trimmed = draft.map((d) => ({ key: d.key.trim(), label: d.label.trim(), description: d.description.trim(), group: d.group.trim() }));
+    const problem = trimmed.length === 0 ? "Define at least one permission" : validatePermissionDefs(trimmed);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await savePermissionSchema(trimmed);
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to save permission schema:", err);
+      setError((err as Error).message || "Failed to save permissions");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h4 style={{ margin: 0, color: "#202124" }}>Permission Definitions ({saved.length})</h4>
+        <button onClick={() => setOpen(!open)} style={{ padding: "4px 10px", cursor: "pointer" }}>
+          {open ? "Hide" : "Edit permissions"}
+        </button>
+      </div>
+
+      {open && (
+        <div style={{ marginTop: 12 }}>
+          <p style={{ color: "#5f6368", fontSize: 13, marginTop: 0 }}>
+            The app reads each permission from the login doc field named by its key. Sorting the rights table by name or email
+            while filtering on a new permission needs a composite index (see firestore.indexes.json).
+          </p>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Key</th>
+                <th>Label</th>
+                <th>Description</th>
+                <th>Group</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {defs.map((d, i) => (
+                <tr key={i}>
+                  <td>
+                    <input
+                      value={d.key}
+                      onChange={(e) => update(i, { key: e.target.value })}
+                      disabled={!d.isNew}
+                      placeholder="e.g. garbaquiz"
+                      style={{ width: 120 }}
+                    />
+                  </td>
+                  <td>
+                    <input value={d.label} onChange={(e) => update(i, { label: e.target.value })} style={{ width: 140 }} />
+                  </td>
+                  <td>
+                    <input value={d.description} onChange={(e) => update(i, { description: e.target.value })} style={{ width: 260 }} />
+                  </td>
+                  <td>
+                    <input value={d.group} onChange={(e) => update(i, { group: e.target.value })} style={{ width: 100 }} />
+                  </td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    <button onClick={() => move(i, -1)} disabled={i === 0} style={{ padding: "2px 6px", cursor: "pointer" }}>
+                      ↑
+                    </button>
+                    <button onClick={() => move(i, 1)} disabled={i === defs.length - 1} style={{ padding: "2px 6px", cursor: "pointer" }}>
+                      ↓
+                    </button>
+                    <button onClick={() => removeFlag(i)} style={{ padding: "2px 8px", cursor: "pointer", marginLeft: 4 }}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button onClick={addFlag} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Add permission
+            </button>
+            <button
+              onClick={save}
+              disabled={saving || draft == null}
+              style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+            >
+              {saving ? "Saving..." : "Save permissions"}
+            </button>
+            {draft != null && (
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                disabled={saving}
+                style={{ padding: "6px 12px", cursor: "pointer" }}
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+        </div>
+      )}
+    </div>
+  );
+}
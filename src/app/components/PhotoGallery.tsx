@@ -0,0 +1,111 @@
+"use client";
+import React, { useState } from "react";
+import Image from "next/image";
+import { collection, getDocs } from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { db } from "../../../firebase";
+import { toDirectImageUrl } from "../../lib/drivePhotos";
+
+type Props = {
+  // records path, e.g. "WOF" or a draft's wallVersions/<id>/records
+  collectionPath: string;
+};
+
+type GalleryItem = { id: string; data: DocumentData; src: string | null };
+
+// Thumbnail grid of a WOF/WOP collection. Records without a photo, or whose photo
+// fails to load, are outlined in red and listed in the broken-link report.
+export default function PhotoGallery({ collectionPath }: Props) {
+  const [items, setItems] = useState<GalleryItem[] | null>(null);
+  const [failed, setFailed] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGallery = async () => {
+    setLoading(true);
+    setError(null);
+    setFailed({});
+    try {
+      const snap = await getDocs(collection(db, collectionPath));
+      setItems(
+        snap.docs.map((d) => {
+          const data = d.data();
+          // Records imported before PhotoDirect existed only carry the share link
+          const photo = typeof data.PhotoDirect === "string" ? data.PhotoDirect : typeof data.Photo === "string" ? data.Photo : "";
+          return { id: d.id, data, src: photo.trim() ? toDirectImageUrl(photo) : null };
+        })
+      );
+    } catch (err) {
+      console.error(`Failed to load ${collectionPath} gallery:`, err);
+      setError((err as Error).message || "Failed to load gallery");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const broken = (items || []).filter((item) => !item.src || failed[item.id]);
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13, color: "#222" }}>
+      <button onClick={items ? () => setItems(null) : loadGallery} disabled={loading} style={{ padding: "4px 10px", cursor: "pointer" }}>
+        {loading ? "Loading..." : items ? "Hide photo gallery" : "Show photo gallery"}
+      </button>
+      {error ? <div style={{ color: "red" }}>{error}</div> : null}
+      {items && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(110px, 1fr))", gap: 8 }}>
+            {items.map((item) => {
+              const isBroken = !item.src || failed[item.id];
+              return (
+                <div
+                  key={item.id}
+                  title={String(item.data.Photo || "No photo")}
+                  style={{
+                    padding: 6,
+                    borderRadius: 8,
+                    border: `2px solid ${isBroken ? "#F44336" : "#ddd"}`,
+                    backgroundColor: isBroken ? "#fdecea" : "#fff",
+                    textAlign: "center",
+                  }}
+                >
+                  {item.src && !failed[item.id] ? (
+                    <Image
+                      src={item.src}
+                      alt={String(item.data.Name || item.id)}
+                      width={96}
+                      height={96}
+                      unoptimized
+                      style={{ objectFit: "cover", borderRadius: 6 }}
+                      onError={() => setFailed((prev) => ({ ...prev, [item.id]: true }))}
+                    />
+                  ) : (
+                    <div style={{ height: 96, display: "flex", alignItems: "center", justifyContent: "center", color: "#b71c1c" }}>
+                      {item.src ? "Failed to load" : "No photo"}
+                    </div>
+                  )}
+                  <div style={{ fontSize: 12, marginTop: 4, wordBreak: "break-word" }}>{String(item.data.Name || item.id)}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {broken.length > 0 && (
+            <div style={{ marginTop: 8, padding: 8, border: "1px solid #F44336", borderRadius: 8, backgroundColor: "#fdecea" }}>
+              <div style={{ fontWeight: 600, color: "#b71c1c", marginBottom: 4 }}>
+                {broken.length} of {items.length} records have a missing or broken photo:
+              </div>
+              <ul style={{ margin: "0 0 0 20px" }}>
+                {broken.map((item) => (
+                  <li key={item.id}>
+                    {String(item.data.Name || item.id)}
+                    {item.data.City ? ` (${item.data.City})` : ""}: {item.src ? `failed to load ${item.data.Photo}` : "no photo"}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
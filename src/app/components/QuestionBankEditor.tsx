@@ -0,0 +1,166 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import styles from "../page.module.css";
+import {
+  deleteQuestion,
+  DIFFICULTIES,
+  emptyQuestion,
+  EMPTY_QUESTION_FILTER,
+  filterQuestions,
+  LANGUAGES,
+  markQuestionUnused,
+  questionCategories,
+  saveQuestion,
+  subscribeQuestions,
+} from "../../lib/questionBank";
+import type { BankQuestion, QuestionFilter } from "../../lib/questionBank";
+import QuestionFilterBar from "./QuestionFilterBar";
+import QuestionForm from "./QuestionForm";
+import QuestionImport from "./QuestionImport";
+
+const PAGE_SIZE = 50;
+
+const linkButton = { padding: "2px 6px", cursor: "pointer", fontSize: 12 };
+
+// KBS question bank: add, edit, delete and import questions, and put used ones back
+// into rotation. Hosts push questions into a live session from its monitor.
+export default function QuestionBankEditor() {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [filter, setFilter] = useState<QuestionFilter>({ ...EMPTY_QUESTION_FILTER, includeUsed: true });
+  const [shown, setShown] = useState(PAGE_SIZE);
+  // question id being edited, "new" for the add form
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeQuestions(setQuestions, (err) => setError(err.message || "Failed to load questions")), []);
+
+  const categories = questionCategories(questions);
+  const filtered = filterQuestions(questions, filter);
+
+  const act = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError((err as Error).message || failure);
+    }
+  };
+
+  const remove = (q: BankQuestion) => {
+    if (!window.confirm(`Delete this question?\n\n${q.text}`)) return;
+    act(() => deleteQuestion(q.id), "Failed to delete question");
+  };
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa", color: "#202124" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <h4 style={{ margin: 0 }}>KBS Question Bank</h4>
+        <span style={{ fontSize: 13, color: "#666" }}>
+          {questions.length} questions, {questions.filter((q) => !q.usedAt).length} unused
+        </span>
+      </div>
+
+      <QuestionFilterBar
+        filter={filter}
+        categories={categories}
+        onChange={(next) => {
+          setFilter(next);
+          setShown(PAGE_SIZE);
+        }}
+      />
+
+      <div style={{ margin: "12px 0" }}>
+        {editing === "new" ? (
+          <QuestionForm
+            initial={emptyQuestion()}
+            categories={categories}
+            onSave={async (input) => {
+              await saveQuestion(null, input);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button onClick={() => setEditing("new")} style={{ padding: "6px 12px", cursor: "pointer" }}>
+            Add question
+          </button>
+        )}
+        <QuestionImport existing={questions} />
+      </div>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Question</th>
+            <th>Answer</th>
+            <th>Category</th>
+            <th>Difficulty</th>
+            <th>Language</th>
+            <th>Used</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {filtered.slice(0, shown).map((q) =>
+            editing === q.id ? (
+              <tr key={q.id}>
+                <td colSpan={7}>
+                  <QuestionForm
+                    initial={q}
+                    categories={categories}
+                    onSave={async (input) => {
+                      await saveQuestion(q.id, input);
+                      setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                  />
+                </td>
+              </tr>
+            ) : (
+              <tr key={q.id} style={q.usedAt ? { color: "#9c9c9c" } : undefined}>
+                <td style={{ textAlign: "left" }}>{q.text}</td>
+                <td style={{ textAlign: "left" }}>
+                  {String.fromCharCode(65 + q.answerIndex)}. {q.options[q.answerIndex]}
+                </td>
+                <td>{q.category}</td>
+                <td>{DIFFICULTIES.find((d) => d.id === q.difficulty)?.label}</td>
+                <td>{LANGUAGES.find((l) => l.id === q.language)?.label}</td>
+                <td style={{ fontSize: 12 }}>
+                  {q.usedAt ? (
+                    <>
+                      {new Date(q.usedAt).toLocaleString()}
+                      {q.usedInSession ? <div>{q.usedInSession}</div> : null}
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td style={{ whiteSpace: "nowrap" }}>
+                  <button onClick={() => setEditing(q.id)} style={linkButton}>
+                    Edit
+                  </button>
+                  {q.usedAt ? (
+                    <button onClick={() => act(() => markQuestionUnused(q.id), "Failed to mark question unused")} style={linkButton}>
+                      Mark unused
+                    </button>
+                  ) : null}
+                  <button onClick={() => remove(q)} style={{ ...linkButton, color: "#d93025" }}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+      {filtered.length === 0 ? <p style={{ color: "#777", textAlign: "center" }}>No questions match.</p> : null}
+      {filtered.length > shown ? (
+        <button onClick={() => setShown((n) => n + PAGE_SIZE)} style={{ marginTop: 8, padding: "6px 12px", cursor: "pointer" }}>
+          Show more ({filtered.length - shown} left)
+        </button>
+      ) : null}
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
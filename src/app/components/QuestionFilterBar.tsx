@@ -0,0 +1,48 @@
+"use client";
+import React from "react";
+import { DIFFICULTIES, LANGUAGES } from "../../lib/questionBank";
+import type { Difficulty, QuestionFilter, QuestionLanguage } from "../../lib/questionBank";
+
+type Props = {
+  filter: QuestionFilter;
+  categories: string[];
+  onChange: (filter: QuestionFilter) => void;
+};
+
+// Search, category, difficulty, language and used filters over the question bank
+export default function QuestionFilterBar({ filter, categories, onChange }: Props) {
+  const update = (change: Partial<QuestionFilter>) => onChange({ ...filter, ...change });
+
+  return (
+    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", fontSize: 13, color: "#202124" }}>
+      <input value={filter.search} onChange={(e) => update({ search: e.target.value })} placeholder="Search questions" style={{ padding: "4px 8px" }} />
+      <select value={filter.category} onChange={(e) => update({ category: e.target.value })}>
+        <option value="">All categories</option>
+        {categories.map((c) => (
+          <option key={c} value={c}>
+            {c}
+          </option>
+        ))}
+      </select>
+      <select value={filter.difficulty} onChange={(e) => update({ difficulty: e.target.value as Difficulty | "" })}>
+        <option value="">Any difficulty</option>
+        {DIFFICULTIES.map((d) => (
+          <option key={d.id} value={d.id}>
+            {d.label}
+          </option>
+        ))}
+      </select>
+      <select value={filter.language} onChange={(e) => update({ language: e.target.value as QuestionLanguage | "" })}>
+        <option value="">Any language</option>
+        {LANGUAGES.map((l) => (
+          <option key={l.id} value={l.id}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+      <label>
+        <input type="checkbox" checked={filter.includeUsed} onChange={(e) => update({ includeUsed: e.target.checked })} /> Include used
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import React, { useState } from "react";
+import { DIFFICULTIES, LANGUAGES, validateQuestion } from "../../lib/questionBank";
+import type { Difficulty, QuestionInput, QuestionLanguage } from "../../lib/questionBank";
+
+type Props = {
+  initial: QuestionInput;
+  // offered as suggestions in the category box
+  categories: string[];
+  onSave: (input: QuestionInput) => Promise<void>;
+  onCancel: () => void;
+};
+
+// Add / edit form for one question bank entry; the radio marks the correct option
+export default function QuestionForm({ initial, categories, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<QuestionInput>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (change: Partial<QuestionInput>) => setDraft((prev) => ({ ...prev, ...change }));
+  const setOption = (idx: number, value: string) => update({ options: draft.options.map((opt, i) => (i === idx ? value : opt)) });
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateQuestion(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      console.error("Failed to save question:", err);
+      setError((err as Error).message || "Failed to save question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} style={{ display: "flex", flexDirection: "column", gap: 8, padding: 12, backgroundColor: "#f5f5f5", color: "#202124", fontSize: 14 }}>
+      <textarea value={draft.text} onChange={(e) => update({ text: e.target.value })} placeholder="Question" rows={2} style={{ padding: 8 }} />
+      {draft.options.map((opt, idx) => (
+        <label key={idx} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input type="radio" name="answerIndex" checked={draft.answerIndex === idx} onChange={() => update({ answerIndex: idx })} title="Correct option" />
+          <b>{String.fromCharCode(65 + idx)}.</b>
+          <input value={opt} onChange={(e) => setOption(idx, e.target.value)} style={{ flex: 1, padding: "4px 8px" }} />
+        </label>
+      ))}
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input value={draft.category} onChange={(e) => update({ category: e.target.value })} placeholder="Category" list="question-categories" style={{ padding: "4px 8px" }} />
+        <datalist id="question-categories">
+          {categories.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        <select value={draft.difficulty} onChange={(e) => update({ difficulty: e.target.value as Difficulty })}>
+          {DIFFICULTIES.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.label}
+            </option>
+          ))}
+        </select>
+        <select value={draft.language} onChange={(e) => update({ language: e.target.value as QuestionLanguage })}>
+          {LANGUAGES.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={saving} style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}>
+          {saving ? "Saving..." : "Save question"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Cancel
+        </button>
+      </div>
+      {error ? <div style={{ color: "red" }}>{error}</div> : null}
+    </form>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { collectHeaders, parseWorkbook } from "../../lib/excel";
+import type { RawRow } from "../../lib/excel";
+import { guessColumnMapping } from "../../lib/wallImport";
+import type { ColumnMapping } from "../../lib/wallImport";
+import { buildQuestionPreview, importQuestions, QUESTION_FIELDS } from "../../lib/questionBank";
+import type { BankQuestion, QuestionInput } from "../../lib/questionBank";
+import type { BulkFailure, BulkProgress as Progress } from "../../lib/bulkWrite";
+import ColumnMappingEditor from "./ColumnMappingEditor";
+import BulkProgress from "./BulkProgress";
+
+type Props = {
+  // the current bank, so questions already in it are skipped
+  existing: BankQuestion[];
+};
+
+// Excel import for the question bank: one question per row with the four options, the
+// answer (A-D, 1-4 or the option text) and optional category, difficulty and language
+export default function QuestionImport({ existing }: Props) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<RawRow[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [showProblems, setShowProblems] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const preview = useMemo(() => buildQuestionPreview(rows, mapping, existing), [rows, mapping, existing]);
+  const valid = preview.filter((r) => r.question).map((r) => r.question as QuestionInput);
+  const problems = preview.filter((r) => !r.question);
+  const unmapped = QUESTION_FIELDS.filter((f) => f.required && !mapping[f.key]).map((f) => f.label);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setSuccess(null);
+    setProgress(null);
+    setFailures([]);
+    try {
+      const sheet = (await parseWorkbook(file)).find((s) => s.rows.length > 0);
+      if (!sheet) throw new Error("Workbook has no sheets with data");
+      const found = collectHeaders(sheet.rows);
+      setFileName(file.name);
+      setRows(sheet.rows);
+      setHeaders(found);
+      setMapping(guessColumnMapping(QUESTION_FIELDS, found));
+    } catch (err) {
+      console.error("Failed to read question workbook:", err);
+      setError((err as Error).message || "Failed to read workbook");
+      setFileName(null);
+      setRows([]);
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const runImport = async () => {
+    if (importing || valid.length === 0 || !fileName) return;
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await importQuestions(valid, fileName, setProgress);
+      setFailures(result.failed);
+      setSuccess(`Imported ${result.succeeded} of ${valid.length} questions.`);
+      if (result.failed.length === 0) {
+        setFileName(null);
+        setRows([]);
+      }
+    } catch (err) {
+      console.error("Failed to import questions:", err);
+      setError((err as Error).message || "Failed to import questions");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13, color: "#202124" }}>
+      <label>
+        Import from Excel: <input type="file" accept=".xlsx,.xls" onChange={handleFileChange} disabled={importing} />
+      </label>
+      {fileName && (
+        <div style={{ marginTop: 8 }}>
+          <ColumnMappingEditor fields={QUESTION_FIELDS} headers={headers} mapping={mapping} onChange={setMapping} />
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <span>
+              {fileName}: {valid.length} ready
+              {problems.length > 0 ? <span style={{ color: "red" }}>, {problems.length} skipped</span> : null}
+            </span>
+            {unmapped.length > 0 && <span style={{ color: "red" }}>No column for: {unmapped.join(", ")}</span>}
+            {problems.length > 0 && (
+              <button onClick={() => setShowProblems((v) => !v)} style={{ padding: "2px 8px" }}>
+                {showProblems ? "Hide skipped rows" : "Show skipped rows"}
+              </button>
+            )}
+            <button
+              onClick={runImport}
+              disabled={importing || valid.length === 0 || unmapped.length > 0}
+              style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}
+            >
+              {importing ? "Importing..." : `Import ${valid.length} questions`}
+            </button>
+          </div>
+          {showProblems && (
+            <ul style={{ marginTop: 8, maxHeight: 200, overflowY: "auto" }}>
+              {problems.map((r) => (
+                <li key={r.index}>
+                  Row {r.index + 2}: {r.issues.map((i) => i.message).join("; ")}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      <BulkProgress progress={progress} failures={failures} />
+      {success ? <div style={{ color: "green", marginTop: 8 }}>{success}</div> : null}
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
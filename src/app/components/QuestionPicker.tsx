@@ -0,0 +1,80 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { EMPTY_QUESTION_FILTER, filterQuestions, questionCategories, subscribeQuestions } from "../../lib/questionBank";
+import type { BankQuestion, QuestionFilter } from "../../lib/questionBank";
+import QuestionFilterBar from "./QuestionFilterBar";
+
+type Props = {
+  // false while the session isn't in a phase that takes a new question
+  enabled: boolean;
+  pushing: boolean;
+  onPush: (questionId: string) => void;
+};
+
+// Picks an unused question bank entry for a live session, by hand or at random
+export default function QuestionPicker({ enabled, pushing, onPush }: Props) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [filter, setFilter] = useState<QuestionFilter>(EMPTY_QUESTION_FILTER);
+  const [selectedId, setSelectedId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeQuestions(setQuestions, (err) => setError(err.message || "Failed to load questions")), []);
+
+  // used questions can't be pushed again, whatever the filter says
+  const available = filterQuestions(questions, { ...filter, includeUsed: false });
+  const selected = available.find((q) => q.id === selectedId) || null;
+
+  const pickRandom = () => {
+    if (available.length === 0) return;
+    setSelectedId(available[Math.floor(Math.random() * available.length)].id);
+  };
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, borderRadius: 8, backgroundColor: "#fff", color: "#222", fontSize: 14 }}>
+      <h5 style={{ margin: "0 0 8px 0", fontSize: 14 }}>Question bank ({available.length} unused)</h5>
+      <QuestionFilterBar filter={{ ...filter, includeUsed: false }} categories={questionCategories(questions)} onChange={setFilter} />
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <select value={selected ? selectedId : ""} onChange={(e) => setSelectedId(e.target.value)} style={{ flex: 1, minWidth: 0 }}>
+          <option value="">Choose a question…</option>
+          {available.slice(0, 200).map((q) => (
+            <option key={q.id} value={q.id}>
+              {q.text.length > 80 ? `${q.text.slice(0, 80)}…` : q.text}
+            </option>
+          ))}
+        </select>
+        <button onClick={pickRandom} disabled={available.length === 0} style={{ padding: "4px 8px", cursor: "pointer" }}>
+          Random
+        </button>
+      </div>
+      {selected && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <div>{selected.text}</div>
+          <ol type="A" style={{ margin: "4px 0 0 20px" }}>
+            {selected.options.map((opt, idx) => (
+              <li key={idx} style={idx === selected.answerIndex ? { fontWeight: 600, color: "#2e7d32" } : undefined}>
+                {opt}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      <button
+        onClick={() => selected && onPush(selected.id)}
+        disabled={!enabled || pushing || !selected}
+        style={{
+          marginTop: 8,
+          padding: "8px 12px",
+          borderRadius: 8,
+          border: "none",
+          backgroundColor: enabled && selected && !pushing ? "#450693" : "#9c9c9c",
+          color: "#fff",
+          fontWeight: 600,
+          cursor: enabled && selected && !pushing ? "pointer" : "not-allowed",
+        }}
+      >
+        {pushing ? "Pushing..." : "Push to session"}
+      </button>
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { reauthenticateWithPassword, setReauthPrompt } from "../../lib/reauth";
+
+type Request = { reason: string; resolve: (ok: boolean) => void };
+
+// Password prompt behind confirmIdentity; mounted once while an admin is signed in
+export default function ReauthDialog() {
+  const [request, setRequest] = useState<Request | null>(null);
+  const [password, setPassword] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReauthPrompt((reason) => new Promise<boolean>((resolve) => setRequest({ reason, resolve })));
+    return () => setReauthPrompt(null);
+  }, []);
+
+  if (!request) return null;
+
+  const close = (ok: boolean) => {
+    request.resolve(ok);
+    setRequest(null);
+    setPassword("");
+    setError(null);
+  };
+
+  const confirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    setError(null);
+    try {
+      await reauthenticateWithPassword(password);
+      close(true);
+    } catch (err) {
+      console.error("Re-authentication failed:", err);
+      const code = (err as { code?: string }).code;
+      setError(code === "auth/wrong-password" || code === "auth/invalid-credential" ? "Wrong password" : (err as Error).message || "Re-authentication failed");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div style={{ position: "fixed", inset: 0, backgroundColor: "rgba(0,0,0,0.45)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 1000 }}>
+      <form onSubmit={confirm} style={{ backgroundColor: "#fff", color: "#202124", borderRadius: 12, padding: 24, width: 360 }}>
+        <h4 style={{ marginTop: 0 }}>Confirm your password</h4>
+        <p style={{ fontSize: 14 }}>{request.reason}</p>
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus autoComplete="current-password" style={{ width: "100%", padding: "6px 10px" }} />
+        {error ? <div style={{ color: "red", fontSize: 13, marginTop: 8 }}>{error}</div> : null}
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 16 }}>
+          <button type="button" onClick={() => close(false)} disabled={checking} style={{ padding: "6px 12px", cursor: "pointer" }}>
+            Cancel
+          </button>
+          <button type="submit" disabled={checking || !password} style={{ color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}>
+            {checking ? "Checking..." : "Confirm"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,536 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../../../firebase";
+import styles from "../page.module.css";
+import { DEFAULT_PERMISSIONS, groupPermissions, permissionLabel } from "../../lib/permissions";
+import type { PermissionDef } from "../../lib/permissions";
+import { subscribePermissionSchema } from "../../lib/permissionSchema";
+import { ROLES } from "../../lib/roles";
+import type { Role } from "../../lib/roles";
+import { presetDrift, subscribePresets } from "../../lib/permissionPresets";
+import type { PermissionPreset } from "../../lib/permissionPresets";
+import {
+  applyFlagChoices,
+  applyPreset,
+  changedFields,
+  countUsers,
+  DEFAULT_USER_QUERY,
+  EMPTY_RIGHTS_STATE,
+  isMissingIndex,
+  mergeServerRows,
+  refreshUserSearch,
+  resolveConflict,
+  saveUserRows,
+  sortFieldOf,
+  subscribeUserRows,
+  toUserRow,
+  toUserUpdate,
+  USERS_PAGE_SIZE,
+} from "../../lib/userRights";
+import type { FlagChoice, RightsState, UserFilter, UserQuery, UserRow, UserSortField } from "../../lib/userRights";
+import { downloadRows } from "../../lib/excel";
+import type { ExportFormat } from "../../lib/excel";
+import ExportButtons from "./ExportButtons";
+import AddUserForm from "./AddUserForm";
+import UserAccountActions from "./UserAccountActions";
+import type { AccountProfile } from "../../lib/adminApi";
+
+type Props = {
+  currentUid: string | null;
+  // super-admins also see and edit the Admin Roles column
+  canAssignRoles: boolean;
+};
+
+const DIRTY_ROW = "#FFF8E1";
+
+// The `login` rights table, live for the current search / filter / sort and grown a page at
+// a time. Edits stay local, with changed rows highlighted against the server state, until
+// they are saved per row or all at once; remote changes under unsaved edits ask the admin
+// whose values to keep.
+export default function RightsTable({ currentUid, canAssignRoles }: Props) {
+  const [table, setTable] = useState<RightsState>(EMPTY_RIGHTS_STATE);
+  const { rows: users, original, conflicts } = table;
+  const setUsers = (update: (rows: UserRow[]) => UserRow[]) => setTable((t) => ({ ...t, rows: update(t.rows) }));
+  const setOriginal = (update: (original: Record<string, UserRow>) => Record<string, UserRow>) =>
+    setTable((t) => ({ ...t, original: update(t.original) }));
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [schema, setSchema] = useState<PermissionDef[]>(DEFAULT_PERMISSIONS);
+  const [choices, setChoices] = useState<Record<string, FlagChoice>>({});
+  const [presets, setPresets] = useState<PermissionPreset[]>([]);
+  const [bulkPresetId, setBulkPresetId] = useState("");
+  const [userQuery, setUserQuery] = useState<UserQuery>(DEFAULT_USER_QUERY);
+  const [searchInput, setSearchInput] = useState("");
+  // how many users the live query covers
+  const [max, setMax] = useState(USERS_PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // ignores counts that arrive after the query has changed again
+  const requestId = useRef(0);
+  const [saving, setSaving] = useState(false);
+  const [rowSaving, setRowSaving] = useState<Record<string, boolean>>({});
+  const [rowErrorMap, setRowErrorMap] = useState<Record<string, string | null>>({});
+  const [summary, setSummary] = useState<string | null>(null);
+  const [searchUpdating, setSearchUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribePresets(setPresets), []);
+  useEffect(() => subscribePermissionSchema(setSchema), []);
+
+  // columns in group order; rows keep their values for flags the schema drops
+  const groups = groupPermissions(schema);
+  const flagDefs = groups.flatMap((g) => g.defs);
+  const flagKeys = flagDefs.map((d) => d.key);
+  // snapshots only need the keys at the time they arrive
+  const flagKeysRef = useRef(flagKeys);
+  flagKeysRef.current = flagKeys;
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    countUsers(userQuery)
+      .then((count) => {
+        if (id === requestId.current) setTotal(count);
+      })
+      .catch((err) => console.error("Failed to count users:", err));
+  }, [userQuery]);
+
+  // "Load more" re-subscribes with a larger limit; rows already shown merge in unchanged
+  useEffect(
+    () =>
+      subscribeUserRows(
+        userQuery,
+        max,
+        flagKeysRef.current,
+        (rows, more) => {
+          setTable((t) => mergeServerRows(t, rows, flagKeysRef.current));
+          setHasMore(more);
+          setLoading(false);
+          setLoadingMore(false);
+        },
+        (err) => {
+          console.error("Failed to subscribe to users:", err);
+          setError(
+            isMissingIndex(err)
+              ? `Searching within this filter needs a Firestore index that doesn't exist yet. Clear the search, or create the index: ${err.message}`
+              : err.message || "Failed to load users"
+          );
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      ),
+    [userQuery, max]
+  );
+
+  const loadMore = () => {
+    if (loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    setMax((m) => m + USERS_PAGE_SIZE);
+  };
+
+  const resolve = (userId: string, keep: "mine" | "theirs") => setTable((t) => resolveConflict(t, userId, keep, flagKeys));
+
+  const dirtyIds = users.filter((u) => changedFields(u, original[u.id], flagKeys).length > 0).map((u) => u.id);
+  // rows in conflict wait until the admin picks whose values to keep
+  const savableIds = dirtyIds.filter((id) => !(id in conflicts));
+  const conflictCount = Object.keys(conflicts).length;
+  const columnCount = 5 + flagKeys.length + (canAssignRoles ? 1 : 0);
+
+  // A new query reloads the table, so unsaved edits would be lost
+  const changeQuery = (update: Partial<UserQuery>) => {
+    if (dirtyIds.length > 0 && !window.confirm(`Discard ${dirtyIds.length} unsaved changes?`)) return;
+    setTable(EMPTY_RIGHTS_STATE);
+    setSelected(new Set());
+    setMax(USERS_PAGE_SIZE);
+    setTotal(null);
+    setLoading(true);
+    setError(null);
+    setRowErrorMap({});
+    setSummary(null);
+    setUserQuery((prev) => ({ ...prev, ...update }));
+  };
+
+  const updateSearch = async () => {
+    setSearchUpdating(true);
+    setError(null);
+    setSummary(null);
+    try {
+      const updated = await refreshUserSearch();
+      setSummary(updated > 0 ? `Search updated for ${updated} users` : "Search is up to date");
+    } catch (err) {
+      console.error("Failed to update user search:", err);
+      setError((err as Error).message || "Failed to update search");
+    } finally {
+      setSearchUpdating(false);
+    }
+  };
+
+  const sortField = sortFieldOf(userQuery);
+  // permission filters always list users by id
+  const sortable = !userQuery.filter.startsWith("flag:");
+  const sortBy = (field: UserSortField) => {
+    if (!sortable) return;
+    changeQuery({ sortField: field, sortDir: userQuery.sortField === field && userQuery.sortDir === "asc" ? "desc" : "asc" });
+  };
+
+  const sortHint = "Users with a permission are listed by id";
+
+  const sortMark = (field: UserSortField) => (sortField === field ? (userQuery.sortDir === "asc" ? " ▲" : " ▼") : "");
+
+  const updateRow = (userId: string, update: (u: UserRow) => UserRow) =>
+    setUsers((prev) => prev.map((u) => (u.id === userId ? update(u) : u)));
+
+  const handleCheckboxChange = (userId: string, field: string) => updateRow(userId, (u) => ({ ...u, flags: { ...u.flags, [field]: !u.flags[field] } }));
+
+  const handleRoleToggle = (userId: string, role: Role) =>
+    updateRow(userId, (u) => ({ ...u, roles: u.roles.includes(role) ? u.roles.filter((r) => r !== role) : [...u.roles, role] }));
+
+  const toggleSelected = (userId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+
+  const allSelected = users.length > 0 && users.every((u) => selected.has(u.id));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(users.map((u) => u.id)));
+
+  const applyToSelection = () => {
+    setUsers((prev) => prev.map((u) => (selected.has(u.id) ? applyFlagChoices(u, choices) : u)));
+    setSummary(null);
+  };
+
+  const applyPresetToSelection = () => {
+    const preset = presets.find((p) => p.id === bulkPresetId);
+    if (!preset) return;
+    setUsers((prev) => prev.map((u) => (selected.has(u.id) ? applyPreset(u, preset, flagKeys) : u)));
+    setSummary(null);
+  };
+
+  // "" clears the preset but leaves the flags alone
+  const setRowPreset = (userId: string, presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    updateRow(userId, (u) => (preset ? applyPreset(u, preset, flagKeys) : { ...u, preset: null }));
+  };
+
+  // Flags that differ from the user's preset; null when there is no preset to compare with
+  const driftOf = (user: UserRow) => {
+    if (!user.preset) return null;
+    const preset = presets.find((p) => p.id === user.preset);
+    return preset ? presetDrift(user.flags, preset, flagKeys) : null;
+  };
+  const driftedCount = users.filter((u) => (driftOf(u)?.length ?? 0) > 0).length;
+
+  // Saves `ids` in one request; successful rows become the new baseline
+  const saveRows = async (ids: string[]) => {
+    const rows = users.filter((u) => ids.includes(u.id));
+    const results = await saveUserRows(rows.map((u) => toUserUpdate(u, original[u.id], flagKeys, canAssignRoles)));
+    const saved = new Set(results.filter((r) => r.ok).map((r) => r.id));
+    setOriginal((prev) => ({ ...prev, ...Object.fromEntries(rows.filter((u) => saved.has(u.id)).map((u) => [u.id, u])) }));
+    setRowErrorMap((prev) => ({ ...prev, ...Object.fromEntries(results.map((r) => [r.id, r.ok ? null : r.error || "Failed to save"])) }));
+    return results;
+  };
+
+  const saveUser = async (u: UserRow) => {
+    setRowSaving((p) => ({ ...p, [u.id]: true }));
+    try {
+      await saveRows([u.id]);
+    } finally {
+      setRowSaving((p) => ({ ...p, [u.id]: false }));
+    }
+  };
+
+  const saveAll = async () => {
+    if (saving || savableIds.length === 0) return;
+    setSaving(true);
+    setSummary(null);
+    try {
+      const results = await saveRows(savableIds);
+      const failed = results.filter((r) => !r.ok).length;
+      const waiting = dirtyIds.length - savableIds.length;
+      setSummary(
+        `${results.length - failed} saved${failed > 0 ? `, ${failed} failed (see the highlighted rows)` : ""}${waiting > 0 ? `, ${waiting} conflicts to resolve` : ""}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Account changes are saved already, so they update the baseline too and keep unsaved flag edits
+  const applyAccountChange = (userId: string, profile: AccountProfile | null) => {
+    if (!profile) {
+      setUsers((prev) => prev.filter((u) => u.id !== userId));
+      setOriginal((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== userId)));
+      setSelected((prev) => new Set([...prev].filter((id) => id !== userId)));
+      setTotal((t) => (t == null ? t : t - 1));
+      return;
+    }
+    const patch = { name: profile.name, email: profile.email, disabled: profile.disabled };
+    updateRow(userId, (u) => ({ ...u, ...patch }));
+    setOriginal((prev) => (prev[userId] ? { ...prev, [userId]: { ...prev[userId], ...patch } } : prev));
+  };
+
+  // the live query shows the new user if it matches the current view
+  const addCreatedUser = () => setTotal((t) => (t == null ? t : t + 1));
+
+  // Conflicted rows take the other admin's values
+  const discardChanges = () => {
+    setTable((t) => {
+      const resolved = Object.keys(t.conflicts).reduce((acc, id) => resolveConflict(acc, id, "theirs", flagKeys), t);
+      return { ...resolved, rows: resolved.rows.map((u) => resolved.original[u.id] || u) };
+    });
+    setRowErrorMap({});
+    setSummary(null);
+  };
+
+  const fieldLabel = (field: string) => (field === "roles" ? "Admin Roles" : field === "preset" ? "Preset" : permissionLabel(schema, field));
+
+  const exportUsers = async (format: ExportFormat) => {
+    const snap = await getDocs(collection(db, "login"));
+    const rows = snap.docs.map((d) => {
+      const u = toUserRow(d.id, d.data(), flagKeys);
+      return { ...u, ...u.flags, isAdmin: !!d.data().isAdmin, roles: u.roles.join(", ") };
+    });
+    downloadRows(rows, ["id", "name", "email", "disabled", "isAdmin", "roles", "preset", ...flagKeys], "login", format);
+  };
+
+  return (
+    <>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            changeQuery({ search: searchInput });
+          }}
+          style={{ display: "flex", gap: 8, flex: 1 }}
+        >
+          <input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Name or email starts with..."
+            style={{ flex: 1, padding: "6px 10px" }}
+          />
+          <button type="submit" style={{ padding: "6px 12px", cursor: "pointer" }}>
+            Search
+          </button>
+          <button
+            type="button"
+            onClick={updateSearch}
+            disabled={searchUpdating}
+            title="Makes users who signed up or renamed themselves in the app findable"
+            style={{ padding: "6px 12px", cursor: searchUpdating ? "not-allowed" : "pointer" }}
+          >
+            {searchUpdating ? "Updating..." : "Update search"}
+          </button>
+        </form>
+        <select value={userQuery.filter} onChange={(e) => changeQuery({ filter: e.target.value as UserFilter })} style={{ padding: "6px 10px" }}>
+          <option value="all">All users</option>
+          <option value="admins">Admins only</option>
+          {flagDefs.map((d) => (
+            <option key={d.key} value={`flag:${d.key}`}>
+              Has {d.label}
+            </option>
+          ))}
+        </select>
+        <ExportButtons label="users" onExport={exportUsers} />
+        <AddUserForm onCreated={addCreatedUser} />
+      </div>
+      {error ? <p style={{ color: "red" }}>Error: {error}</p> : null}
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12, padding: 12, backgroundColor: "#f5f5f5", color: "#202124", fontSize: 13 }}>
+        <b>{selected.size} selected:</b>
+        {flagDefs.map((d) => (
+          <label key={d.key} title={d.description} style={{ whiteSpace: "nowrap" }}>
+            {d.label}{" "}
+            <select value={choices[d.key] || "keep"} onChange={(e) => setChoices((prev) => ({ ...prev, [d.key]: e.target.value as FlagChoice }))}>
+              <option value="keep">—</option>
+              <option value="grant">grant</option>
+              <option value="revoke">revoke</option>
+            </select>
+          </label>
+        ))}
+        <button onClick={applyToSelection} disabled={selected.size === 0} style={{ padding: "4px 10px", cursor: selected.size === 0 ? "not-allowed" : "pointer" }}>
+          Apply to selection
+        </button>
+        <span style={{ marginLeft: 12 }}>Preset:</span>
+        <select value={bulkPresetId} onChange={(e) => setBulkPresetId(e.target.value)}>
+          <option value="">—</option>
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={applyPresetToSelection}
+          disabled={selected.size === 0 || !bulkPresetId}
+          style={{ padding: "4px 10px", cursor: selected.size === 0 || !bulkPresetId ? "not-allowed" : "pointer" }}
+        >
+          Apply preset
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "flex-end", marginBottom: 12 }}>
+        {driftedCount > 0 ? (
+          <span style={{ color: "#b45309", fontSize: 14, marginRight: "auto" }}>⚠ {driftedCount} loaded users no longer match their preset</span>
+        ) : null}
+        {conflictCount > 0 ? (
+          <span style={{ color: "#d93025", fontSize: 14 }}>⚠ {conflictCount} users were changed by another admin while you were editing</span>
+        ) : null}
+        {summary ? <span style={{ color: "#202124", fontSize: 14 }}>{summary}</span> : null}
+        <button onClick={discardChanges} disabled={saving || dirtyIds.length === 0} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Discard changes
+        </button>
+        <button
+          onClick={saveAll}
+          disabled={saving || savableIds.length === 0}
+          style={{
+            color: "white",
+            backgroundColor: saving || savableIds.length === 0 ? "#9c9c9c" : "#28A745",
+            border: "none",
+            padding: "6px 12px",
+            cursor: saving || savableIds.length === 0 ? "not-allowed" : "pointer",
+          }}
+        >
+          {saving ? "Saving..." : `Save all changes (${savableIds.length})`}
+        </button>
+      </div>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th rowSpan={2}>
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} title="Select all" />
+            </th>
+            <th
+              rowSpan={2}
+              onClick={() => sortBy("name")}
+              style={{ cursor: sortable ? "pointer" : "default" }}
+              title={sortable ? "Sort by name (hides users without one)" : sortHint}
+            >
+              Name{sortMark("name")}
+            </th>
+            <th
+              rowSpan={2}
+              onClick={() => sortBy("email")}
+              style={{ cursor: sortable ? "pointer" : "default" }}
+              title={sortable ? "Sort by email (hides users without one)" : sortHint}
+            >
+              Email{sortMark("email")}
+            </th>
+            {groups.map((g) => (
+              <th key={g.group} colSpan={g.defs.length}>
+                {g.group || "Other"}
+              </th>
+            ))}
+            <th rowSpan={2}>Preset</th>
+            {canAssignRoles && <th rowSpan={2}>Admin Roles</th>}
+            <th rowSpan={2}>Actions</th>
+          </tr>
+          <tr>
+            {flagDefs.map((d) => (
+              <th key={d.key} title={d.description}>
+                {d.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => {
+            const changed = changedFields(user, original[user.id], flagKeys);
+            const drift = driftOf(user);
+            const inConflict = user.id in conflicts;
+            const theirs = conflicts[user.id];
+            return (
+              <React.Fragment key={user.id}>
+                <tr style={changed.length > 0 ? { backgroundColor: DIRTY_ROW } : undefined}>
+                  <td>
+                    <input type="checkbox" checked={selected.has(user.id)} onChange={() => toggleSelected(user.id)} />
+                  </td>
+                  <td style={user.disabled ? { color: "#9c9c9c" } : undefined}>
+                    {user.name || user.id}
+                    {user.disabled ? <div style={{ fontSize: 12 }}>(disabled)</div> : null}
+                  </td>
+                  <td>{user.email}</td>
+                  {flagKeys.map((f) => (
+                    <td key={f} style={changed.includes(f) ? { fontWeight: 700, outline: "2px solid #FFC400" } : undefined}>
+                      <input type="checkbox" checked={!!user.flags[f]} onChange={() => handleCheckboxChange(user.id, f)} />
+                    </td>
+                  ))}
+                  <td style={{ fontSize: 12, ...(changed.includes("preset") ? { outline: "2px solid #FFC400" } : {}) }}>
+                    <select value={user.preset || ""} onChange={(e) => setRowPreset(user.id, e.target.value)}>
+                      <option value="">—</option>
+                      {user.preset && !presets.some((p) => p.id === user.preset) && <option value={user.preset}>unknown preset</option>}
+                      {presets.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    {drift && drift.length > 0 ? (
+                      <div style={{ color: "#b45309" }} title={drift.map((f) => permissionLabel(schema, f)).join(", ")}>
+                        ⚠ differs: {drift.map((f) => permissionLabel(schema, f)).join(", ")}
+                      </div>
+                    ) : null}
+                  </td>
+                  {canAssignRoles && (
+                    <td style={{ textAlign: "left", fontSize: 12, ...(changed.includes("roles") ? { outline: "2px solid #FFC400" } : {}) }}>
+                      {ROLES.map((role) => (
+                        <label key={role.id} title={role.description} style={{ display: "block", whiteSpace: "nowrap" }}>
+                          <input
+                            type="checkbox"
+                            checked={user.roles.includes(role.id)}
+                            // a super-admin can't demote themselves and lock everyone out
+                            disabled={user.id === currentUid && role.id === "super_admin"}
+                            onChange={() => handleRoleToggle(user.id, role.id)}
+                          />{" "}
+                          {role.label}
+                        </label>
+                      ))}
+                    </td>
+                  )}
+                  <td>
+                    <button className={styles.saveButton} onClick={() => saveUser(user)} disabled={!!rowSaving[user.id] || saving || changed.length === 0 || inConflict}>
+                      {rowSaving[user.id] ? "Saving..." : "Save"}
+                    </button>
+                    {rowErrorMap[user.id] ? <div style={{ color: "red", fontSize: 12 }}>{rowErrorMap[user.id]}</div> : null}
+                    {(canAssignRoles || user.roles.length === 0) && (
+                      <UserAccountActions user={user} isSelf={user.id === currentUid} onChanged={(profile) => applyAccountChange(user.id, profile)} />
+                    )}
+                  </td>
+                </tr>
+                {inConflict && (
+                  <tr style={{ backgroundColor: "#FDECEA" }}>
+                    <td colSpan={columnCount} style={{ textAlign: "left", fontSize: 13, color: "#202124" }}>
+                      {theirs
+                        ? `Another admin changed ${changedFields(theirs, original[user.id], flagKeys).map(fieldLabel).join(", ")} while you were editing. `
+                        : "This user was deleted or no longer matches the view. "}
+                      <button onClick={() => resolve(user.id, "mine")} style={{ padding: "2px 8px", cursor: "pointer", marginRight: 4 }}>
+                        {theirs ? "Keep my edits" : "Keep editing"}
+                      </button>
+                      <button onClick={() => resolve(user.id, "theirs")} style={{ padding: "2px 8px", cursor: "pointer" }}>
+                        {theirs ? "Use their values" : "Drop my edits"}
+                      </button>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", color: "#202124", fontSize: 14 }}>
+        <span>
+          {loading ? "Loading users..." : `Showing ${users.length}${total != null ? ` of ${total}` : ""} users`}
+        </span>
+        {hasMore && !loading && (
+          <button onClick={loadMore} disabled={loadingMore} style={{ padding: "6px 12px", cursor: "pointer" }}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import styles from "../page.module.css";
+import { LEGACY_SESSION_ID, subscribeSessions } from "../../lib/liveSessions";
+import type { SessionInfo } from "../../lib/liveSessions";
+import {
+  buildStandings,
+  groupsOf,
+  RESULT_COLUMNS,
+  resultRows,
+  STANDING_COLUMNS,
+  standingRows,
+  subscribeResults,
+  WALL_EXPORT_COLUMNS,
+  wallRows,
+} from "../../lib/liveResults";
+import type { AnswerResult, StandingView } from "../../lib/liveResults";
+import { downloadRows } from "../../lib/excel";
+import ExportButtons from "./ExportButtons";
+
+const formatSeconds = (ms: number | null) => (ms === null ? "—" : `${(ms / 1000).toFixed(1)}s`);
+
+// Leaderboard and answer history of one live session, including archived ones, with
+// exports for announcing winners and for the WOF/WOP import
+export default function SessionResults() {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionId, setSessionId] = useState(LEGACY_SESSION_ID);
+  const [results, setResults] = useState<AnswerResult[]>([]);
+  const [view, setView] = useState<StandingView>("player");
+  const [group, setGroup] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeSessions(setSessions), []);
+
+  useEffect(() => {
+    setResults([]);
+    setGroup("");
+    setError(null);
+    return subscribeResults(sessionId, setResults, (err) => setError(err.message || "Failed to load results"));
+  }, [sessionId]);
+
+  const sessionName = sessions.find((s) => s.id === sessionId)?.name || sessionId;
+  const filtered = group ? results.filter((r) => r.group === group) : results;
+  const standings = buildStandings(filtered, view);
+  const baseName = `kbs-${sessionId}${group ? `-${group}` : ""}`;
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa", color: "#202124" }}>
+      <h4 style={{ margin: "0 0 8px 0" }}>Results &amp; Leaderboard</h4>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 8, fontSize: 13 }}>
+        <select value={sessionId} onChange={(e) => setSessionId(e.target.value)}>
+          {sessions.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+              {s.archived ? " (archived)" : ""}
+            </option>
+          ))}
+        </select>
+        <select value={group} onChange={(e) => setGroup(e.target.value)}>
+          <option value="">All groups</option>
+          {groupsOf(results).map((g) => (
+            <option key={g} value={g}>
+              {g}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input type="radio" checked={view === "player"} onChange={() => setView("player")} /> By player
+        </label>
+        <label>
+          <input type="radio" checked={view === "group"} onChange={() => setView("group")} /> By group
+        </label>
+        <span style={{ color: "#666" }}>{filtered.length} answers</span>
+      </div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
+        <ExportButtons label="leaderboard" onExport={async (format) => downloadRows(standingRows(standings), STANDING_COLUMNS, `${baseName}-${view}s`, format)} />
+        <ExportButtons label="answers" onExport={async (format) => downloadRows(resultRows(filtered), RESULT_COLUMNS, `${baseName}-answers`, format)} />
+        <ExportButtons
+          label="WOF sheet"
+          onExport={async (format) => downloadRows(wallRows(buildStandings(filtered, "player"), sessionName), WALL_EXPORT_COLUMNS, `${baseName}-wall`, format)}
+        />
+      </div>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Rank</th>
+            <th>{view === "group" ? "Group" : "Player"}</th>
+            {view === "group" ? <th>Players</th> : <th>Group</th>}
+            <th>Correct</th>
+            <th>Answered</th>
+            <th>Total time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((s) => (
+            <tr key={`${s.group}\u0000${s.name}`}>
+              <td>{s.rank}</td>
+              <td style={{ textAlign: "left" }}>{s.name}</td>
+              <td>{view === "group" ? s.players : s.group}</td>
+              <td>{s.correct}</td>
+              <td>{s.answered}</td>
+              <td>{formatSeconds(s.totalTimeMs)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {standings.length === 0 ? <p style={{ color: "#777", textAlign: "center" }}>No locked answers yet.</p> : null}
+
+      <button onClick={() => setShowHistory((v) => !v)} style={{ marginTop: 8, padding: "6px 12px", cursor: "pointer" }}>
+        {showHistory ? "Hide answer history" : "Show answer history"}
+      </button>
+      {showHistory && (
+        <table className={styles.table} style={{ marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th>Player</th>
+              <th>Group</th>
+              <th>#</th>
+              <th>Question</th>
+              <th>Answer</th>
+              <th>Correct</th>
+              <th>Time</th>
+              <th>Lifelines</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.map((r) => (
+              <tr key={r.id}>
+                <td>{r.player}</td>
+                <td>{r.group}</td>
+                <td>{r.questionIndex}</td>
+                <td style={{ textAlign: "left" }}>{r.questionText}</td>
+                <td style={{ textAlign: "left" }}>{r.selected === null ? "—" : `${String.fromCharCode(65 + r.selected)}. ${r.selectedText}`}</td>
+                <td style={{ color: r.correct ? "#2e7d32" : r.correct === false ? "#d93025" : undefined }}>{r.correct === null ? "?" : r.correct ? "✓" : "✗"}</td>
+                <td>{formatSeconds(r.timeTakenMs)}</td>
+                <td>{r.lifelinesUsed.join(", ")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {error ? <div style={{ color: "red", marginTop: 8 }}>{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { listSnapshots } from "../../lib/snapshots";
+import type { SnapshotMeta } from "../../lib/snapshots";
+
+type Props = {
+  collectionName: string;
+  // bump to reload the list after a new snapshot was taken
+  refreshKey: number;
+  disabled?: boolean;
+  onRestore: (meta: SnapshotMeta) => void;
+};
+
+export default function SnapshotList({ collectionName, refreshKey, disabled, onRestore }: Props) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let mounted = true;
+    listSnapshots(collectionName)
+      .then((list) => {
+        if (mounted) {
+          setSnapshots(list);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error(`Failed to load ${collectionName} snapshots:`, err);
+        if (mounted) setError((err as Error).message || "Failed to load snapshots");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [collectionName, refreshKey, open]);
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13, color: "#222" }}>
+      <button onClick={() => setOpen((o) => !o)} style={{ padding: "4px 10px", cursor: "pointer" }}>
+        {open ? "Hide snapshots" : "Show snapshots"}
+      </button>
+      {open && (
+        <div style={{ marginTop: 8 }}>
+          {error ? <div style={{ color: "red" }}>{error}</div> : null}
+          {snapshots.length === 0 ? (
+            <p style={{ color: "#777" }}>No snapshots of {collectionName} yet.</p>
+          ) : (
+            <ul style={{ listStyle: "none" }}>
+              {snapshots.map((s) => (
+                <li key={s.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", borderBottom: "1px solid #eee" }}>
+                  <span style={{ flex: 1 }}>
+                    {new Date(s.createdAt).toLocaleString()} — {s.count} documents — {s.reason}
+                    {s.createdBy ? ` by ${s.createdBy}` : ""}
+                  </span>
+                  <button onClick={() => onRestore(s)} disabled={disabled} style={{ padding: "4px 10px", cursor: disabled ? "not-allowed" : "pointer" }}>
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
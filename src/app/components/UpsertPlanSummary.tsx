@@ -0,0 +1,47 @@
+"use client";
+import React from "react";
+import type { UpsertPlan } from "../../lib/wallUpsert";
+
+type Props = {
+  plan: UpsertPlan;
+  collectionName: string;
+  deleteMissing: boolean;
+  onDeleteMissingChange: (deleteMissing: boolean) => void;
+};
+
+// Diff of an import against the live data, with the choice to drop records missing from the sheet
+export default function UpsertPlanSummary({ plan, collectionName, deleteMissing, onDeleteMissingChange }: Props) {
+  return (
+    <div style={{ marginBottom: 12, padding: 12, backgroundColor: "#fff", border: "1px solid #eee", borderRadius: 8, color: "#222", fontSize: 14 }}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>
+        {plan.added.length} to add, {plan.updated.length} to update, {plan.unchanged.length} unchanged,{" "}
+        {plan.missing.length} in {collectionName} but not in the sheet
+      </div>
+      {plan.updated.length > 0 && (
+        <ul style={{ margin: "0 0 8px 20px", fontSize: 13 }}>
+          {plan.updated.map((u) => (
+            <li key={u.id}>
+              {String(u.after.Name ?? u.id)}: {u.changedFields.map((f) => `${f} "${u.before[f] ?? ""}" → "${u.after[f] ?? ""}"`).join(", ")}
+            </li>
+          ))}
+        </ul>
+      )}
+      {plan.missing.length > 0 && (
+        <>
+          <ul style={{ margin: "0 0 8px 20px", fontSize: 13 }}>
+            {plan.missing.map((m) => (
+              <li key={m.id}>
+                {String(m.data.Name ?? m.id)}
+                {m.data.City ? ` (${m.data.City})` : ""}
+              </li>
+            ))}
+          </ul>
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={deleteMissing} onChange={(e) => onDeleteMissingChange(e.target.checked)} /> Delete the{" "}
+            {plan.missing.length} records that are not in the sheet
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+import React, { useState } from "react";
+import { deleteAccount, linkAccount, passwordResetLink, setAccountDisabled, updateAccount } from "../../lib/userAccounts";
+import type { AccountProfile } from "../../lib/adminApi";
+import type { UserRow } from "../../lib/userRights";
+
+type Props = {
+  user: UserRow;
+  // you can't disable or delete yourself
+  isSelf: boolean;
+  // null after the account was deleted
+  onChanged: (profile: AccountProfile | null) => void;
+};
+
+const linkButton = { padding: "2px 6px", cursor: "pointer", fontSize: 12 };
+
+// Edit profile, disable / enable, reset link and delete for one rights table row
+export default function UserAccountActions({ user, isSelf, onChanged }: Props) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(user.name);
+  const [email, setEmail] = useState(user.email);
+  const [busy, setBusy] = useState(false);
+  const [resetLink, setResetLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError((err as Error).message || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEdit = () => {
+    setName(user.name);
+    setEmail(user.email);
+    setEditing(true);
+  };
+
+  const saveProfile = () =>
+    run(async () => {
+      onChanged((await updateAccount(user.id, email.trim(), name.trim())).profile);
+      setEditing(false);
+    }, "Failed to update user");
+
+  const toggleDisabled = () => {
+    if (!user.disabled && !window.confirm(`Disable ${user.name || user.email}? They are signed out and can't sign in until enabled again.`)) return;
+    run(async () => onChanged((await setAccountDisabled(user.id, !user.disabled)).profile), "Failed to change account status");
+  };
+
+  const remove = () => {
+    if (!window.confirm(`Delete ${user.name || user.email} permanently? This removes their sign-in account and login record.`)) return;
+    run(async () => {
+      await deleteAccount(user.id);
+      onChanged(null);
+    }, "Failed to delete user");
+  };
+
+  const link = () => {
+    if (!window.confirm(`Link ${user.name || user.email} to the sign-in account using ${user.email}? Their record moves under that account.`)) return;
+    run(async () => onChanged((await linkAccount(user.id)).profile), "Failed to link account");
+  };
+
+  const createResetLink = () => run(async () => setResetLink(await passwordResetLink(user.id)), "Failed to create reset link");
+
+  return (
+    <div style={{ fontSize: 12, marginTop: 4 }}>
+      {editing ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" />
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" />
+          <div style={{ display: "flex", gap: 4 }}>
+            <button onClick={saveProfile} disabled={busy} style={linkButton}>
+              {busy ? "Saving..." : "Save profile"}
+            </button>
+            <button onClick={() => setEditing(false)} disabled={busy} style={linkButton}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: "flex", gap: 4, flexWrap: "wrap", justifyContent: "center" }}>
+          <button onClick={startEdit} disabled={busy} style={linkButton}>
+            Edit
+          </button>
+          <button onClick={toggleDisabled} disabled={busy || isSelf} style={linkButton}>
+            {user.disabled ? "Enable" : "Disable"}
+          </button>
+          <button onClick={createResetLink} disabled={busy || !user.email} style={linkButton}>
+            Reset link
+          </button>
+          <button onClick={link} disabled={busy || isSelf || !user.email} style={linkButton} title="For records added by hand before the user signed up">
+            Link sign-in
+          </button>
+          <button onClick={remove} disabled={busy || isSelf} style={{ ...linkButton, color: "#d93025" }}>
+            Delete
+          </button>
+        </div>
+      )}
+      {resetLink ? <input readOnly value={resetLink} onFocus={(e) => e.target.select()} style={{ width: "100%", marginTop: 4 }} /> : null}
+      {error ? <div style={{ color: "red" }}>{error}</div> : null}
+    </div>
+  );
+}
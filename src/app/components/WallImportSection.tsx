@@ -0,0 +1,466 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../../../firebase";
+import { collectHeaders, downloadRows, parseWorkbook } from "../../lib/excel";
+import type { ExportFormat, RawRow } from "../../lib/excel";
+import { buildPreview, guessColumnMapping, toSheetRow } from "../../lib/wallImport";
+import type { ColumnMapping } from "../../lib/wallImport";
+import { draftRecordsFromPlan, markKeyIssues, planUpsert, summarizePlan } from "../../lib/wallUpsert";
+import type { UpsertPlan } from "../../lib/wallUpsert";
+import { hasPhotos, pickSheetFor } from "../../lib/importRegistry";
+import type { ImportTarget } from "../../lib/importRegistry";
+import { buildCityLookup, subscribeCities } from "../../lib/cities";
+import type { CityLookup } from "../../lib/cities";
+import { logBulkAudit, runBulkOps } from "../../lib/bulkWrite";
+import type { BulkAuditContext, BulkFailure, BulkOp, BulkProgress as Progress } from "../../lib/bulkWrite";
+import { downloadCollectionJson, restoreSnapshot, takeSnapshot } from "../../lib/snapshots";
+import { confirmIdentity } from "../../lib/reauth";
+import type { SnapshotMeta } from "../../lib/snapshots";
+import { createDraft, livePath, subscribeVersionPointers } from "../../lib/wallVersions";
+import type { VersionPointers } from "../../lib/wallVersions";
+import ExportButtons from "./ExportButtons";
+import BulkProgress from "./BulkProgress";
+import SnapshotList from "./SnapshotList";
+import PhotoGallery from "./PhotoGallery";
+import WallRecordEditor from "./WallRecordEditor";
+import WallVersionsPanel from "./WallVersionsPanel";
+import ColumnMappingEditor from "./ColumnMappingEditor";
+import ImportPreviewTable from "./ImportPreviewTable";
+import UpsertPlanSummary from "./UpsertPlanSummary";
+
+type Props = {
+  target: ImportTarget;
+};
+
+// Excel import wizard for a WOF/WOP style collection:
+// pick file -> map headers -> review validated rows -> review diff against the live data -> create draft
+// Drafts are reviewed and published from the versions panel; the live data itself is only
+// touched by clear / restore and the records editor.
+export default function WallImportSection({ target }: Props) {
+  const collectionName = target.collection;
+  const fields = target.fields;
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<RawRow[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [keyStrategyId, setKeyStrategyId] = useState(target.keyStrategies[0].id);
+  const [plan, setPlan] = useState<UpsertPlan | null>(null);
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+  // a retry of a clear's failed deletes is logged like another clear
+  const [failuresAudit, setFailuresAudit] = useState<BulkAuditContext | undefined>();
+  const [snapshotKey, setSnapshotKey] = useState(0);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const [confirmText, setConfirmText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [cityLookup, setCityLookup] = useState<CityLookup>(new Map());
+  const [pointers, setPointers] = useState<VersionPointers>({ active: null, previous: null });
+  const [draftKey, setDraftKey] = useState(0);
+
+  useEffect(() => subscribeCities((entries) => setCityLookup(buildCityLookup(entries))), []);
+  useEffect(() => subscribeVersionPointers(collectionName, setPointers), [collectionName]);
+
+  const path = livePath(collectionName, pointers);
+
+  const keyStrategy = target.keyStrategies.find((k) => k.id === keyStrategyId) || target.keyStrategies[0];
+  const preview = useMemo(
+    () => markKeyIssues(buildPreview(rows, fields, mapping, cityLookup), keyStrategy),
+    [rows, fields, mapping, keyStrategy, cityLookup]
+  );
+  const cleanedCount = preview.filter((r) => r.changes.length > 0).length;
+  const validRows = preview.filter((r) => r.issues.length === 0);
+  const invalidCount = preview.length - validRows.length;
+
+  const resetWizard = () => {
+    setFileName(null);
+    setRows([]);
+    setHeaders([]);
+    setMapping({});
+    setPlan(null);
+    setDeleteMissing(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSuccess(null);
+    setParsing(true);
+
+    try {
+      const sheet = pickSheetFor(target, await parseWorkbook(file));
+
+      if (!sheet || sheet.rows.length === 0) {
+        throw new Error("Excel file is empty or invalid");
+      }
+
+      const sheetHeaders = collectHeaders(sheet.rows);
+      setFileName(`${file.name} / ${sheet.name}`);
+      setRows(sheet.rows);
+      setHeaders(sheetHeaders);
+      setMapping(guessColumnMapping(fields, sheetHeaders));
+      setPlan(null);
+    } catch (err) {
+      console.error(`Failed to read ${collectionName} Excel:`, err);
+      setError((err as Error).message || `Failed to read ${collectionName} Excel file`);
+      resetWizard();
+    } finally {
+      setParsing(false);
+      // Reset file input so the same file can be picked again
+      e.target.value = "";
+    }
+  };
+
+  // Compare the valid rows against what is currently stored
+  const reviewChanges = async () => {
+    if (validRows.length === 0 || planning) return;
+
+    setError(null);
+    setSuccess(null);
+    setPlanning(true);
+
+    try {
+      const snap = await getDocs(collection(db, path));
+      const existing = snap.docs.map((d) => ({ id: d.id, data: d.data() }));
+      setPlan(planUpsert(validRows.map((r) => r.record), existing, fields, keyStrategy));
+    } catch (err) {
+      console.error(`Failed to load ${collectionName} collection:`, err);
+      setError((err as Error).message || `Failed to load ${collectionName} collection`);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  // Runs ops through the chunked writer; returns how many failed. With `audit`, the
+  // whole run is logged as one entry once it has finished.
+  const runOps = async (ops: BulkOp[], audit?: BulkAuditContext) => {
+    setFailures([]);
+    setProgress({ done: 0, total: ops.length, failed: 0 });
+    const result = await runBulkOps(ops, { onProgress: setProgress });
+    setFailures(result.failed);
+    setFailuresAudit(audit);
+    if (result.failed.length > 0) {
+      setError(`${result.failed.length} of ${ops.length} writes failed. Retry them below.`);
+    }
+    if (audit) await logBulkAudit(audit, ops, result);
+    return result.failed.length;
+  };
+
+  // Archive the current contents before anything destructive; throws if incomplete
+  const snapshotFirst = async (reason: string) => {
+    const meta = await takeSnapshot(collectionName, path, reason, setProgress);
+    setSnapshotKey((k) => k + 1);
+    return meta;
+  };
+
+  const recordLabel = (data: Record<string, unknown>, fallback: string) =>
+    data.Name ? `${data.Name}${data.City ? ` (${data.City})` : ""}` : fallback;
+
+  // Writes the merged result as a new draft version; nothing live changes until it is published
+  const createDraftFromPlan = async () => {
+    if (!plan || uploading) return;
+
+    setError(null);
+    setSuccess(null);
+    setUploading(true);
+
+    try {
+      const summary = summarizePlan(plan, deleteMissing);
+      setFailures([]);
+      await createDraft(collectionName, draftRecordsFromPlan(plan, deleteMissing), `${fileName}: ${summary}`, setProgress);
+      setDraftKey((k) => k + 1);
+
+      setSuccess(
+        `${collectionName} draft created: ${summary}` +
+          (invalidCount > 0 ? `, ${invalidCount} invalid rows skipped` : "") +
+          ". Review and publish it under Versions."
+      );
+      resetWizard();
+    } catch (err) {
+      console.error(`Failed to upload ${collectionName} Excel:`, err);
+      setError((err as Error).message || `Failed to upload ${collectionName} Excel file`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const retryFailed = async () => {
+    if (failures.length === 0 || uploading) return;
+
+    setError(null);
+    setSuccess(null);
+    setUploading(true);
+
+    try {
+      const ops = failures.map((f) => f.op);
+      const failedCount = await runOps(ops, failuresAudit);
+      if (failedCount === 0) setSuccess(`All ${ops.length} remaining writes succeeded`);
+    } catch (err) {
+      console.error(`Failed to retry ${collectionName} writes:`, err);
+      setError((err as Error).message || "Retry failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const clearCollection = async () => {
+    if (uploading || confirmText !== collectionName) return;
+
+    setError(null);
+    setSuccess(null);
+    setUploading(true);
+    setConfirmingClear(false);
+    setConfirmText("");
+
+    try {
+      // asked before the snapshot, so a cancel leaves nothing half done
+      await confirmIdentity(`Clearing ${collectionName} deletes every document in it.`);
+      const snapshot = await snapshotFirst("before clear");
+      const snap = await getDocs(collection(db, path));
+      const ops = snap.docs.map((d): BulkOp => ({ type: "delete", ref: d.ref, label: recordLabel(d.data(), d.id) }));
+      const failedCount = await runOps(ops, { action: "collection.clear", target: path, targetLabel: collectionName, note: `snapshot ${snapshot.id}` });
+      if (failedCount === 0) setSuccess(`Collection "${collectionName}" has been cleared (${ops.length} documents).`);
+    } catch (err) {
+      console.error("Error deleting collection documents: ", err);
+      setError((err as Error).message || "Failed to clear collection");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRestore = async (meta: SnapshotMeta) => {
+    if (uploading) return;
+
+    setError(null);
+    setSuccess(null);
+    setUploading(true);
+
+    try {
+      await confirmIdentity(`Restoring replaces everything in ${collectionName}.`);
+      await snapshotFirst("before restore");
+      setFailures([]);
+      const result = await restoreSnapshot(meta, path, setProgress);
+      setFailures(result.failed);
+      setFailuresAudit(undefined);
+      if (result.failed.length > 0) {
+        setError(`${result.failed.length} writes failed while restoring. Retry them below.`);
+      } else {
+        setSuccess(`Restored ${meta.count} documents from the snapshot of ${new Date(meta.createdAt).toLocaleString()}`);
+      }
+    } catch (err) {
+      console.error(`Failed to restore ${collectionName} snapshot:`, err);
+      setError((err as Error).message || "Failed to restore snapshot");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const downloadBackup = async () => {
+    try {
+      await downloadCollectionJson(collectionName, path);
+    } catch (err) {
+      console.error(`Failed to download ${collectionName} backup:`, err);
+      setError((err as Error).message || "Failed to download backup");
+    }
+  };
+
+  // Download the stored records with the same headers the importer maps by default
+  const exportCollection = async (format: ExportFormat) => {
+    const snap = await getDocs(collection(db, path));
+    const sheetRows = snap.docs.map((d) => toSheetRow(d.data(), fields));
+    downloadRows(sheetRows, fields.map((f) => f.key), collectionName, format);
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 24,
+        border: "1px solid #d9d9d9",
+        borderRadius: 12,
+        padding: 16,
+        backgroundColor: "#fafafa",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12, flexDirection: "row" }}>
+        <h4 style={{ margin: 0, color: "#202124" }}>
+          {target.label} ({collectionName}) Excel Upload
+        </h4>
+        <ExportButtons label={collectionName} onExport={exportCollection} />
+        <button onClick={() => setConfirmingClear(true)} disabled={uploading} style={{ marginLeft: 8, color: "white", backgroundColor: "#0070f3", border: "none", padding: "6px 12px", cursor: "pointer" }}>
+          Delete {collectionName} Collection
+        </button>
+      </div>
+      {confirmingClear && (
+        <div style={{ marginBottom: 12, padding: 12, border: "1px solid #F44336", borderRadius: 8, backgroundColor: "#fdecea", color: "#222", fontSize: 14 }}>
+          <p style={{ marginBottom: 8 }}>
+            This deletes every live document in {collectionName}. A snapshot is taken first so it can be restored. Type{" "}
+            <b>{collectionName}</b> to confirm.
+          </p>
+          <input value={confirmText} onChange={(e) => setConfirmText(e.target.value)} placeholder={collectionName} style={{ marginRight: 8 }} />
+          <button
+            onClick={clearCollection}
+            disabled={confirmText !== collectionName}
+            style={{
+              color: "white",
+              backgroundColor: confirmText === collectionName ? "#F44336" : "#9c9c9c",
+              border: "none",
+              padding: "6px 12px",
+              cursor: confirmText === collectionName ? "pointer" : "not-allowed",
+            }}
+          >
+            Delete all
+          </button>
+          <button
+            onClick={() => {
+              setConfirmingClear(false);
+              setConfirmText("");
+            }}
+            style={{ marginLeft: 8, padding: "6px 12px", cursor: "pointer" }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      <div style={{ marginBottom: 12 }}>
+        <p style={{ margin: "0 0 8px 0", color: "#666", fontSize: 14 }}>
+          Upload an Excel file to preview it and merge its records into a new {collectionName} draft, which goes live once published.
+        </p>
+        <input
+          type="file"
+          accept=".xlsx,.xls"
+          onChange={handleFileChange}
+          disabled={parsing || uploading}
+          style={{
+            padding: "8px 12px",
+            border: "1px solid #ccc",
+            borderRadius: 8,
+            fontSize: 14,
+            width: "100%",
+            color: "#202124",
+            backgroundColor: "#bbb",
+            cursor: parsing || uploading ? "not-allowed" : "pointer",
+          }}
+        />
+      </div>
+
+      {fileName && (
+        <div style={{ marginBottom: 12 }}>
+          <h5 style={{ margin: "0 0 8px 0", color: "#222", fontSize: 14 }}>Column mapping ({fileName})</h5>
+          <ColumnMappingEditor
+            fields={fields}
+            headers={headers}
+            mapping={mapping}
+            onChange={(next) => {
+              setMapping(next);
+              setPlan(null);
+            }}
+          />
+
+          <label style={{ display: "block", color: "#202124", fontSize: 13, marginBottom: 12 }}>
+            Match existing records on:{" "}
+            <select
+              value={keyStrategyId}
+              onChange={(e) => {
+                setKeyStrategyId(e.target.value);
+                setPlan(null);
+              }}
+            >
+              {target.keyStrategies.map((k) => (
+                <option key={k.id} value={k.id}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p style={{ margin: "0 0 8px 0", color: "#222", fontSize: 14 }}>
+            {preview.length} rows parsed, {validRows.length} valid
+            {invalidCount > 0 ? <span style={{ color: "red" }}>, {invalidCount} with problems (will be skipped)</span> : null}
+            {cleanedCount > 0 ? <span style={{ color: "#0d47a1" }}>, {cleanedCount} cleaned up (highlighted in blue)</span> : null}
+          </p>
+
+          <ImportPreviewTable fields={fields} preview={preview} />
+
+          {plan && (
+            <UpsertPlanSummary
+              plan={plan}
+              collectionName={collectionName}
+              deleteMissing={deleteMissing}
+              onDeleteMissingChange={setDeleteMissing}
+            />
+          )}
+
+          <div style={{ display: "flex", gap: 8 }}>
+            {plan ? (
+              <button
+                onClick={createDraftFromPlan}
+                disabled={uploading}
+                style={{
+                  color: "white",
+                  backgroundColor: uploading ? "#9c9c9c" : "#28A745",
+                  border: "none",
+                  padding: "6px 12px",
+                  cursor: uploading ? "not-allowed" : "pointer",
+                }}
+              >
+                {uploading ? "Creating draft..." : "Create draft"}
+              </button>
+            ) : (
+              <button
+                onClick={reviewChanges}
+                disabled={planning || validRows.length === 0}
+                style={{
+                  color: "white",
+                  backgroundColor: planning || validRows.length === 0 ? "#9c9c9c" : "#0070f3",
+                  border: "none",
+                  padding: "6px 12px",
+                  cursor: planning || validRows.length === 0 ? "not-allowed" : "pointer",
+                }}
+              >
+                {planning ? "Comparing..." : `Review changes for ${validRows.length} rows`}
+              </button>
+            )}
+            <button onClick={resetWizard} disabled={uploading} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <BulkProgress progress={progress} failures={failures} onRetryFailed={retryFailed} retrying={uploading} />
+
+      <div style={{ display: "flex", alignItems: "flex-start", gap: 8 }}>
+        <SnapshotList collectionName={collectionName} refreshKey={snapshotKey} disabled={uploading} onRestore={handleRestore} />
+        <button onClick={downloadBackup} style={{ marginTop: 12, padding: "4px 10px", cursor: "pointer" }}>
+          Download JSON backup
+        </button>
+      </div>
+      <WallVersionsPanel target={target} pointers={pointers} refreshKey={draftKey} />
+      {hasPhotos(target) && <PhotoGallery key={path} collectionPath={path} />}
+      <WallRecordEditor key={`editor-${path}`} collectionPath={path} label={collectionName} fields={fields} />
+
+      {parsing && (
+        <div style={{ color: "#202124", marginTop: 8, fontSize: 14 }}>
+          Reading Excel file...
+        </div>
+      )}
+      {success && (
+        <div style={{ color: "#28A745", marginTop: 8, fontSize: 14, fontWeight: 600 }}>
+          {success}
+        </div>
+      )}
+      {error && (
+        <div style={{ color: "red", marginTop: 8, fontSize: 14 }}>
+          Error: {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { addDoc, collection, deleteDoc, doc, onSnapshot, setDoc } from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { db } from "../../../firebase";
+import styles from "../page.module.css";
+import { buildPreview, identityMapping, replaceStoredFields } from "../../lib/wallImport";
+import type { FieldSpec, PreviewRow } from "../../lib/wallImport";
+import { buildCityLookup, subscribeCities } from "../../lib/cities";
+import type { CityLookup } from "../../lib/cities";
+
+type Props = {
+  // records path, e.g. "WOF" or a draft's wallVersions/<id>/records
+  collectionPath: string;
+  label: string;
+  fields: FieldSpec[];
+};
+
+type Draft = Record<string, string>;
+type StoredRecord = { id: string; data: DocumentData };
+
+const emptyDraft = (fields: FieldSpec[]): Draft => Object.fromEntries(fields.map((f) => [f.key, ""]));
+const toDraft = (data: DocumentData, fields: FieldSpec[]): Draft =>
+  Object.fromEntries(fields.map((f) => [f.key, data[f.key] == null ? "" : String(data[f.key])]));
+// Same mapping, cleanup and validation the Excel importer applies to a sheet row
+const checkDraft = (draft: Draft, fields: FieldSpec[], cityLookup: CityLookup): PreviewRow =>
+  buildPreview([draft], fields, identityMapping(fields), cityLookup)[0];
+
+// Live, searchable table of a WOF/WOP collection with single-record add, edit and delete
+export default function WallRecordEditor({ collectionPath, label, fields }: Props) {
+  const [open, setOpen] = useState(false);
+  const [records, setRecords] = useState<StoredRecord[]>([]);
+  const [search, setSearch] = useState("");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("asc");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft(fields));
+  const [newDraft, setNewDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cityLookup, setCityLookup] = useState<CityLookup>(new Map());
+
+  useEffect(() => {
+    if (!open) return;
+    return subscribeCities((entries) => setCityLookup(buildCityLookup(entries)));
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const unsubscribe = onSnapshot(
+      collection(db, collectionPath),
+      (snapshot) => {
+        setRecords(snapshot.docs.map((d) => ({ id: d.id, data: d.data() })));
+        setError(null);
+      },
+      (err) => {
+        console.error(`Failed to subscribe to ${label}:`, err);
+        setError(`Unable to load ${label} records right now.`);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [collectionPath, label, open]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = term
+      ? records.filter((r) => fields.some((f) => String(r.data[f.key] ?? "").toLowerCase().includes(term)))
+      : records;
+    // Records without a numeric QN go last either way
+    const qn = (r: StoredRecord) => (typeof r.data.QN === "number" ? r.data.QN : null);
+    return [...filtered].sort((a, b) => {
+      const qa = qn(a);
+      const qb = qn(b);
+      if (qa == null || qb == null) return qa == null ? (qb == null ? 0 : 1) : -1;
+      return sortDir === "asc" ? qa - qb : qb - qa;
+    });
+  }, [records, fields, search, sortDir]);
+
+  const editCheck = editingId ? checkDraft(draft, fields, cityLookup) : null;
+  const newCheck = newDraft ? checkDraft(newDraft, fields, cityLookup) : null;
+
+  const saveEdit = async (existing: StoredRecord) => {
+    if (!editCheck || editCheck.issues.length > 0 || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await setDoc(doc(db, collectionPath, existing.id), replaceStoredFields(existing.data, editCheck.record, fields));
+      setEditingId(null);
+    } catch (err) {
+      console.error(`Failed to save ${label} record:`, err);
+      setError((err as Error).message || "Failed to save record");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveNew = async () => {
+    if (!newCheck || newCheck.issues.length > 0 || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await addDoc(collection(db, collectionPath), newCheck.record);
+      setNewDraft(null);
+    } catch (err) {
+      console.error(`Failed to add ${label} record:`, err);
+      setError((err as Error).message || "Failed to add record");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRecord = async (r: StoredRecord) => {
+    if (!window.confirm(`Delete "${r.data.Name || r.id}" from ${label}?`)) return;
+    setError(null);
+    try {
+      await deleteDoc(doc(db, collectionPath, r.id));
+    } catch (err) {
+      console.error(`Failed to delete ${label} record:`, err);
+      setError((err as Error).message || "Failed to delete record");
+    }
+  };
+
+  const renderInputs = (value: Draft, onChange: (next: Draft) => void, check: PreviewRow | null) =>
+    fields.map((f) => {
+      const issue = check?.issues.find((i) => i.field === f.key);
+      return (
+        <td key={f.key} style={{ padding: 4 }}>
+          <input
+            value={value[f.key]}
+            onChange={(e) => onChange({ ...value, [f.key]: e.target.value })}
+            placeholder={f.label}
+            title={issue?.message}
+            style={{ width: "100%", minWidth: 60, border: `1px solid ${issue ? "red" : "#ccc"}` }}
+          />
+        </td>
+      );
+    });
+
+  const issueText = (check: PreviewRow | null) =>
+    check && check.issues.length > 0 ? <div style={{ color: "red", fontSize: 12 }}>{check.issues.map((i) => i.message).join("; ")}</div> : null;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13, color: "#222" }}>
+      <button onClick={() => setOpen((o) => !o)} style={{ padding: "4px 10px", cursor: "pointer" }}>
+        {open ? "Hide records editor" : "Edit records"}
+      </button>
+      {open && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+            <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder={`Search ${label}...`} style={{ flex: 1, padding: "4px 8px" }} />
+            <button onClick={() => setNewDraft(emptyDraft(fields))} disabled={!!newDraft} style={{ padding: "4px 10px", cursor: "pointer" }}>
+              Add record
+            </button>
+          </div>
+          {error ? <div style={{ color: "red", marginBottom: 8 }}>{error}</div> : null}
+          <div style={{ maxHeight: 400, overflow: "auto" }}>
+            <table className={styles.table} style={{ fontSize: 13 }}>
+              <thead>
+                <tr>
+                  {fields.map((f) =>
+                    f.key === "QN" ? (
+                      <th key={f.key} onClick={() => setSortDir((d) => (d === "asc" ? "desc" : "asc"))} style={{ cursor: "pointer" }}>
+                        {f.label} {sortDir === "asc" ? "▲" : "▼"}
+                      </th>
+                    ) : (
+                      <th key={f.key}>{f.label}</th>
+                    )
+                  )}
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {newDraft && (
+                  <tr style={{ backgroundColor: "#eef6ff" }}>
+                    {renderInputs(newDraft, setNewDraft, newCheck)}
+                    <td style={{ padding: 4 }}>
+                      <button onClick={saveNew} disabled={saving || !!newCheck?.issues.length}>
+                        Add
+                      </button>{" "}
+                      <button onClick={() => setNewDraft(null)}>Cancel</button>
+                      {issueText(newCheck)}
+                    </td>
+                  </tr>
+                )}
+                {visible.map((r) =>
+                  editingId === r.id ? (
+                    <tr key={r.id} style={{ backgroundColor: "#fff8e1" }}>
+                      {renderInputs(draft, setDraft, editCheck)}
+                      <td style={{ padding: 4 }}>
+                        <button onClick={() => saveEdit(r)} disabled={saving || !!editCheck?.issues.length}>
+                          {saving ? "Saving..." : "Save"}
+                        </button>{" "}
+                        <button onClick={() => setEditingId(null)}>Cancel</button>
+                        {issueText(editCheck)}
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={r.id}>
+                      {fields.map((f) => (
+                        <td key={f.key} style={{ padding: 6, wordBreak: "break-all" }}>
+                          {r.data[f.key] == null ? "" : String(r.data[f.key])}
+                        </td>
+                      ))}
+                      <td style={{ padding: 4, whiteSpace: "nowrap" }}>
+                        <button
+                          onClick={() => {
+                            setEditingId(r.id);
+                            setDraft(toDraft(r.data, fields));
+                          }}
+                        >
+                          Edit
+                        </button>{" "}
+                        <button onClick={() => deleteRecord(r)}>Delete</button>
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div style={{ color: "#666" }}>
+            {visible.length} of {records.length} records
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { discardDraft, listVersions, publishDueVersions, publishVersion, rollbackVersion, schedulePublish, versionRecordsPath } from "../../lib/wallVersions";
+import type { VersionMeta, VersionPointers } from "../../lib/wallVersions";
+import { hasPhotos } from "../../lib/importRegistry";
+import type { ImportTarget } from "../../lib/importRegistry";
+import WallRecordEditor from "./WallRecordEditor";
+import PhotoGallery from "./PhotoGallery";
+
+type Props = {
+  target: ImportTarget;
+  pointers: VersionPointers;
+  // bump to reload the list after a new draft was created
+  refreshKey: number;
+};
+
+const SCHEDULE_CHECK_MS = 30_000;
+
+const statusColor: Record<string, string> = { draft: "#FFC400", published: "#28A745", superseded: "#9c9c9c" };
+
+// Drafts, published and superseded versions of a WOF/WOP collection, with review,
+// publish (now or scheduled), discard and rollback
+export default function WallVersionsPanel({ target, pointers, refreshKey }: Props) {
+  const collectionName = target.collection;
+  const [versions, setVersions] = useState<VersionMeta[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [scheduleInput, setScheduleInput] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    listVersions(collectionName)
+      .then((list) => {
+        if (mounted) setVersions(list);
+      })
+      .catch((err) => {
+        console.error(`Failed to load ${collectionName} versions:`, err);
+        if (mounted) setError((err as Error).message || "Failed to load versions");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [collectionName, refreshKey, reloadKey, pointers.active]);
+
+  // Scheduled publishes are carried out by whichever admin panel is open at the time
+  useEffect(() => {
+    const check = () =>
+      publishDueVersions(collectionName)
+        .then((published) => {
+          if (published) setReloadKey((k) => k + 1);
+        })
+        .catch((err) => console.error(`Scheduled publish of ${collectionName} failed:`, err));
+    check();
+    const interval = setInterval(check, SCHEDULE_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [collectionName]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error(`${collectionName} version action failed:`, err);
+      setError((err as Error).message || "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveSchedule = (v: VersionMeta) => {
+    const value = scheduleInput[v.id];
+    const at = value ? new Date(value).getTime() : null;
+    if (at != null && Number.isNaN(at)) {
+      setError("Invalid publish time");
+      return;
+    }
+    run(() => schedulePublish(v.id, at));
+  };
+
+  const canRollback = !!pointers.active || !!pointers.previous;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13, color: "#222" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <h5 style={{ margin: 0, fontSize: 14 }}>
+          Versions — live: {pointers.active ? `version ${pointers.active}` : `legacy "${collectionName}" collection`}
+        </h5>
+        <button
+          onClick={() => {
+            if (window.confirm(`Roll ${collectionName} back to ${pointers.previous ? `version ${pointers.previous}` : "the legacy collection"}?`)) {
+              run(() => rollbackVersion(collectionName));
+            }
+          }}
+          disabled={busy || !canRollback}
+          style={{ padding: "4px 10px", cursor: busy || !canRollback ? "not-allowed" : "pointer" }}
+        >
+          Roll back to previous
+        </button>
+      </div>
+      {error ? <div style={{ color: "red", marginBottom: 8 }}>{error}</div> : null}
+      {versions.length === 0 ? (
+        <p style={{ color: "#777" }}>No versions yet. Importing a sheet creates a draft here.</p>
+      ) : (
+        <ul style={{ listStyle: "none" }}>
+          {versions.map((v) => (
+            <li key={v.id} style={{ padding: "6px 0", borderBottom: "1px solid #eee" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                <span style={{ padding: "2px 6px", borderRadius: 4, backgroundColor: statusColor[v.status], color: "#fff", fontWeight: 600 }}>
+                  {v.id === pointers.active ? "live" : v.status}
+                </span>
+                <span style={{ flex: 1 }}>
+                  {new Date(v.createdAt).toLocaleString()} — {v.count} records — {v.note}
+                  {v.createdBy ? ` by ${v.createdBy}` : ""}
+                  {v.publishAt ? <b> — publishes {new Date(v.publishAt).toLocaleString()}</b> : null}
+                </span>
+                {v.status === "draft" && (
+                  <>
+                    <button onClick={() => setReviewingId(reviewingId === v.id ? null : v.id)} style={{ padding: "4px 10px", cursor: "pointer" }}>
+                      {reviewingId === v.id ? "Close review" : "Review"}
+                    </button>
+                    <button
+                      onClick={() => run(() => publishVersion(collectionName, v.id))}
+                      disabled={busy}
+                      style={{ padding: "4px 10px", color: "white", backgroundColor: "#28A745", border: "none", cursor: busy ? "not-allowed" : "pointer" }}
+                    >
+                      Publish now
+                    </button>
+                    <input
+                      type="datetime-local"
+                      value={scheduleInput[v.id] ?? ""}
+                      onChange={(e) => setScheduleInput((prev) => ({ ...prev, [v.id]: e.target.value }))}
+                    />
+                    <button onClick={() => saveSchedule(v)} disabled={busy} style={{ padding: "4px 10px", cursor: "pointer" }}>
+                      {scheduleInput[v.id] ? "Schedule" : "Clear schedule"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm("Discard this draft? Its records are deleted.")) run(() => discardDraft(v));
+                      }}
+                      disabled={busy}
+                      style={{ padding: "4px 10px", cursor: "pointer" }}
+                    >
+                      Discard
+                    </button>
+                  </>
+                )}
+                {v.status === "superseded" && (
+                  <button onClick={() => run(() => publishVersion(collectionName, v.id))} disabled={busy} style={{ padding: "4px 10px", cursor: "pointer" }}>
+                    Publish again
+                  </button>
+                )}
+              </div>
+              {reviewingId === v.id && (
+                <div style={{ marginTop: 8, paddingLeft: 12, borderLeft: "3px solid #FFC400" }}>
+                  <WallRecordEditor collectionPath={versionRecordsPath(v.id)} label={`${collectionName} draft`} fields={target.fields} />
+                  {hasPhotos(target) && <PhotoGallery collectionPath={versionRecordsPath(v.id)} />}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../../../firebase";
+import { collectHeaders, parseWorkbook } from "../../lib/excel";
+import type { Sheet } from "../../lib/excel";
+import { buildPreview, guessColumnMapping } from "../../lib/wallImport";
+import { draftRecordsFromPlan, markKeyIssues, planUpsert, summarizePlan } from "../../lib/wallUpsert";
+import type { UpsertPlan } from "../../lib/wallUpsert";
+import { buildCityLookup, subscribeCities } from "../../lib/cities";
+import type { CityLookup } from "../../lib/cities";
+import { findTargetForSheet, IMPORT_TARGETS } from "../../lib/importRegistry";
+import { createDraft, getVersionPointers, livePath } from "../../lib/wallVersions";
+import type { BulkProgress as Progress } from "../../lib/bulkWrite";
+import ImportPreviewTable from "./ImportPreviewTable";
+import UpsertPlanSummary from "./UpsertPlanSummary";
+import BulkProgress from "./BulkProgress";
+
+// Imports one workbook whose sheets feed different registered collections (e.g. sheets
+// "WOF" and "WOP"), creating one draft per collection. Columns are mapped automatically;
+// use the per-collection upload below to adjust a mapping by hand.
+export default function WorkbookImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<Sheet[]>([]);
+  // sheet name -> target collection ("" = skip)
+  const [assignment, setAssignment] = useState<Record<string, string>>({});
+  const [plans, setPlans] = useState<Record<string, UpsertPlan> | null>(null);
+  const [deleteMissing, setDeleteMissing] = useState<Record<string, boolean>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [cityLookup, setCityLookup] = useState<CityLookup>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => subscribeCities((entries) => setCityLookup(buildCityLookup(entries))), []);
+
+  const entries = useMemo(
+    () =>
+      sheets
+        .filter((sheet) => assignment[sheet.name])
+        .map((sheet) => {
+          const target = IMPORT_TARGETS.find((t) => t.collection === assignment[sheet.name])!;
+          const mapping = guessColumnMapping(target.fields, collectHeaders(sheet.rows));
+          const preview = markKeyIssues(buildPreview(sheet.rows, target.fields, mapping, cityLookup), target.keyStrategies[0]);
+          const unmapped = target.fields.filter((f) => f.required && !mapping[f.key]).map((f) => f.label);
+          return { sheet, target, preview, validRows: preview.filter((r) => r.issues.length === 0), unmapped };
+        }),
+    [sheets, assignment, cityLookup]
+  );
+
+  const assignedTwice = IMPORT_TARGETS.filter((t) => entries.filter((e) => e.target === t).length > 1).map((t) => t.collection);
+
+  const reset = () => {
+    setFileName(null);
+    setSheets([]);
+    setAssignment({});
+    setPlans(null);
+    setDeleteMissing({});
+    setExpanded(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSuccess(null);
+    setProgress(null);
+    try {
+      const parsed = (await parseWorkbook(file)).filter((sheet) => sheet.rows.length > 0);
+      if (parsed.length === 0) throw new Error("Workbook has no sheets with data");
+      setFileName(file.name);
+      setSheets(parsed);
+      setAssignment(Object.fromEntries(parsed.map((sheet) => [sheet.name, findTargetForSheet(sheet.name)?.collection || ""])));
+      setPlans(null);
+      setDeleteMissing({});
+    } catch (err) {
+      console.error("Failed to read workbook:", err);
+      setError((err as Error).message || "Failed to read workbook");
+      reset();
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const reviewChanges = async () => {
+    if (busy || entries.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const next: Record<string, UpsertPlan> = {};
+      for (const entry of entries) {
+        const path = livePath(entry.target.collection, await getVersionPointers(entry.target.collection));
+        const snap = await getDocs(collection(db, path));
+        const existing = snap.docs.map((d) => ({ id: d.id, data: d.data() }));
+        next[entry.sheet.name] = planUpsert(
+          entry.validRows.map((r) => r.record),
+          existing,
+          entry.target.fields,
+          entry.target.keyStrategies[0]
+        );
+      }
+      setPlans(next);
+    } catch (err) {
+      console.error("Failed to compare workbook with live data:", err);
+      setError((err as Error).message || "Failed to compare workbook with live data");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createDrafts = async () => {
+    if (busy || !plans) return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    const done: string[] = [];
+    try {
+      for (const entry of entries) {
+        const plan = plans[entry.sheet.name];
+        const drop = !!deleteMissing[entry.sheet.name];
+        const summary = summarizePlan(plan, drop);
+        await createDraft(entry.target.collection, draftRecordsFromPlan(plan, drop), `${fileName} / ${entry.sheet.name}: ${summary}`, setProgress);
+        done.push(`${entry.target.collection}: ${summary}`);
+      }
+      setSuccess(`Drafts created — ${done.join("; ")}. Review and publish them in each collection's Versions list.`);
+      reset();
+    } catch (err) {
+      console.error("Failed to create drafts from workbook:", err);
+      setError(
+        ((err as Error).message || "Failed to create drafts") + (done.length > 0 ? ` (already created: ${done.join("; ")})` : "")
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canReview = entries.length > 0 && assignedTwice.length === 0 && entries.every((e) => e.unmapped.length === 0);
+
+  return (
+    <div style={{ marginBottom: 24, border: "1px solid #d9d9d9", borderRadius: 12, padding: 16, backgroundColor: "#fafafa" }}>
+      <h4 style={{ margin: "0 0 8px 0", color: "#202124" }}>Multi-sheet Workbook Import</h4>
+      <p style={{ margin: "0 0 8px 0", color: "#666", fontSize: 14 }}>
+        Upload one workbook whose sheets are named after collections ({IMPORT_TARGETS.map((t) => t.collection).join(", ")}) to
+        import them together.
+      </p>
+      <input type="file" accept=".xlsx,.xls" onChange={handleFileChange} disabled={busy} style={{ width: "100%", color: "#202124" }} />
+
+      {fileName && (
+        <div style={{ marginTop: 12, fontSize: 13, color: "#222" }}>
+          <ul style={{ listStyle: "none", marginBottom: 12 }}>
+            {sheets.map((sheet) => {
+              const entry = entries.find((e) => e.sheet === sheet);
+              return (
+                <li key={sheet.name} style={{ padding: "6px 0", borderBottom: "1px solid #eee" }}>
+                  <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                    <b>{sheet.name}</b> ({sheet.rows.length} rows) →
+                    <select
+                      value={assignment[sheet.name] || ""}
+                      onChange={(e) => {
+                        setAssignment((prev) => ({ ...prev, [sheet.name]: e.target.value }));
+                        setPlans(null);
+                      }}
+                    >
+                      <option value="">(skip)</option>
+                      {IMPORT_TARGETS.map((t) => (
+                        <option key={t.collection} value={t.collection}>
+                          {t.label} ({t.collection})
+                        </option>
+                      ))}
+                    </select>
+                    {entry && (
+                      <>
+                        <span>
+                          {entry.validRows.length} valid
+                          {entry.preview.length > entry.validRows.length ? (
+                            <span style={{ color: "red" }}>, {entry.preview.length - entry.validRows.length} with problems</span>
+                          ) : null}
+                        </span>
+                        {entry.unmapped.length > 0 && <span style={{ color: "red" }}>No column for: {entry.unmapped.join(", ")}</span>}
+                        <button onClick={() => setExpanded(expanded === sheet.name ? null : sheet.name)} style={{ padding: "2px 8px" }}>
+                          {expanded === sheet.name ? "Hide rows" : "Show rows"}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {entry && expanded === sheet.name && (
+                    <div style={{ marginTop: 8 }}>
+                      <ImportPreviewTable fields={entry.target.fields} preview={entry.preview} />
+                    </div>
+                  )}
+                  {entry && plans?.[sheet.name] && (
+                    <div style={{ marginTop: 8 }}>
+                      <UpsertPlanSummary
+                        plan={plans[sheet.name]}
+                        collectionName={entry.target.collection}
+                        deleteMissing={!!deleteMissing[sheet.name]}
+                        onDeleteMissingChange={(v) => setDeleteMissing((prev) => ({ ...prev, [sheet.name]: v }))}
+                      />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {assignedTwice.length > 0 && (
+            <div style={{ color: "red", marginBottom: 8 }}>Only one sheet can go into each collection: {assignedTwice.join(", ")}</div>
+          )}
+          <div style={{ display: "flex", gap: 8 }}>
+            {plans ? (
+              <button
+                onClick={createDrafts}
+                disabled={busy}
+                style={{ color: "white", backgroundColor: busy ? "#9c9c9c" : "#28A745", border: "none", padding: "6px 12px", cursor: busy ? "not-allowed" : "pointer" }}
+              >
+                {busy ? "Creating drafts..." : `Create ${entries.length} drafts`}
+              </button>
+            ) : (
+              <button
+                onClick={reviewChanges}
+                disabled={busy || !canReview}
+                style={{
+                  color: "white",
+                  backgroundColor: busy || !canReview ? "#9c9c9c" : "#0070f3",
+                  border: "none",
+                  padding: "6px 12px",
+                  cursor: busy || !canReview ? "not-allowed" : "pointer",
+                }}
+              >
+                {busy ? "Comparing..." : "Review changes"}
+              </button>
+            )}
+            <button onClick={reset} disabled={busy} style={{ padding: "6px 12px", cursor: "pointer" }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <BulkProgress progress={busy ? progress : null} failures={[]} />
+      {success && <div style={{ color: "#28A745", marginTop: 8, fontSize: 14, fontWeight: 600 }}>{success}</div>}
+      {error && <div style={{ color: "red", marginTop: 8, fontSize: 14 }}>Error: {error}</div>}
+    </div>
+  );
+}
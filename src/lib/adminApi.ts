@@ -0,0 +1,84 @@
+import { auth } from "../../firebase";
+import { confirmIdentity } from "./reauth";
+import type { Role } from "./roles";
+import type { PermissionFlags } from "./permissions";
+import type { AuditAction } from "./audit";
+
+// Client side of the /api/admin route handlers. Every call carries the signed-in
+// user's ID token; the server checks it and the caller's roles before writing.
+
+// Request and response shapes shared with src/app/api/admin/*
+export type MeResponse = { roles: Role[]; setupAvailable: boolean };
+
+// `preset` omitted leaves the user's preset as it is, null clears it. `expected` holds the
+// values the admin edited from; the row fails if the stored values differ.
+export type UserUpdate = {
+  id: string;
+  flags: PermissionFlags;
+  roles?: Role[];
+  preset?: string | null;
+  expected?: { flags?: PermissionFlags; roles?: Role[]; preset?: string | null };
+};
+export type RowResult = { id: string; ok: boolean; error?: string };
+export type UsersResponse = { results: RowResult[] };
+// how many login docs had their search copies brought up to date
+export type SearchResponse = { updated: number };
+
+// /api/admin/accounts; every action but "create" names an existing user by uid.
+// "create" without a password returns a reset link the new user can set one with.
+export type AccountRequest =
+  | { action: "create"; email: string; name: string; password?: string }
+  | { action: "update"; uid: string; email: string; name: string }
+  | { action: "disable" | "enable" | "delete" | "resetLink" | "link"; uid: string };
+export type AccountProfile = { uid: string; email: string; name: string; disabled: boolean };
+// `profile` is null after a delete
+export type AccountResponse = { profile: AccountProfile | null; resetLink?: string };
+
+// Firestore Timestamps don't survive JSON, so they travel as { __ts: millis }
+export type WireValue = unknown;
+export type WireOp = { type: "set"; path: string; data: Record<string, WireValue> } | { type: "delete"; path: string };
+// Sent on its own, without writes, once an audited bulk operation has finished: the server
+// logs one entry for the whole operation with how many deletes landed and how many failed
+export type BulkAudit = { action: AuditAction; target: string; targetLabel: string; note?: string; written: number; deleted: number; failed: number };
+export type BulkResponse = { committed: number };
+
+export class AdminApiError extends Error {
+  status: number;
+  // mirrors FirestoreError codes so callers can treat both alike
+  code: string;
+
+  // `code` from the server wins, e.g. "reauth-required"
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "AdminApiError";
+    this.status = status;
+    this.code =
+      code ||
+      (status === 401 ? "unauthenticated" : status === 403 ? "permission-denied" : status === 429 || status >= 500 ? "unavailable" : "invalid-argument");
+  }
+}
+
+const post = async <T>(route: string, body: unknown): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) throw new AdminApiError("Not signed in", 401);
+  const token = await user.getIdToken();
+  const res = await fetch(`/api/admin/${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new AdminApiError(json.error || `Request failed (${res.status})`, res.status, json.code);
+  return json as T;
+};
+
+// Asks for the password and retries once when the server wants a fresher sign-in
+export const callAdminApi = async <T>(route: string, body: unknown): Promise<T> => {
+  try {
+    return await post<T>(route, body);
+  } catch (err) {
+    if ((err as AdminApiError).code !== "reauth-required") throw err;
+    await confirmIdentity((err as Error).message, true);
+    return post<T>(route, body);
+  }
+};
@@ -0,0 +1,39 @@
+import { doc, onSnapshot, runTransaction } from "firebase/firestore";
+import { db } from "../../firebase";
+import { logAudit } from "./audit";
+
+// Idle sign-out settings in `config/adminSecurity`, edited by super-admins:
+//   { idleMinutes: 15, warningSeconds: 60 }   (idleMinutes 0 turns the sign-out off)
+export type AdminSecurity = { idleMinutes: number; warningSeconds: number };
+
+export const DEFAULT_ADMIN_SECURITY: AdminSecurity = { idleMinutes: 15, warningSeconds: 60 };
+
+const securityDoc = () => doc(db, "config", "adminSecurity");
+
+const parseSecurity = (data: Record<string, unknown> | undefined): AdminSecurity => ({
+  idleMinutes: typeof data?.idleMinutes === "number" && data.idleMinutes >= 0 ? data.idleMinutes : DEFAULT_ADMIN_SECURITY.idleMinutes,
+  warningSeconds: typeof data?.warningSeconds === "number" && data.warningSeconds > 0 ? data.warningSeconds : DEFAULT_ADMIN_SECURITY.warningSeconds,
+});
+
+export const subscribeAdminSecurity = (onChange: (settings: AdminSecurity) => void) =>
+  onSnapshot(
+    securityDoc(),
+    (snap) => onChange(parseSecurity(snap.data())),
+    (err) => {
+      console.error("Failed to subscribe to admin security settings:", err);
+      onChange(DEFAULT_ADMIN_SECURITY);
+    }
+  );
+
+export const saveAdminSecurity = (settings: AdminSecurity) =>
+  runTransaction(db, async (tx) => {
+    const before = parseSecurity((await tx.get(securityDoc())).data());
+    const auditId = logAudit(tx, {
+      action: "config.adminSecurity",
+      target: "config/adminSecurity",
+      targetLabel: "Idle sign-out",
+      before,
+      after: settings,
+    });
+    tx.set(securityDoc(), { ...settings, auditId });
+  });
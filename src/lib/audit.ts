@@ -0,0 +1,94 @@
+import { collection, doc, getDocs, limit, orderBy, query, serverTimestamp, Timestamp } from "firebase/firestore";
+import type { Transaction, WriteBatch } from "firebase/firestore";
+import { auth, db } from "../../firebase";
+
+// Append-only audit trail. Layout:
+//   auditLog/{entryId} -> AuditEntry fields, `at` is a server timestamp
+// firestore.rules lets admins create entries in their own name and nobody update or
+// delete them. Rights saves are logged by /api/admin/users in the same transaction as the write,
+// and each clear, restore and question import by /api/admin/bulk as one entry once its writes
+// have finished. Config changes, drafts and publishes written by the panel itself carry the id
+// of their entry in `auditId`, and the rules refuse them unless that entry is created alongside.
+export const AUDIT_LOG = "auditLog";
+
+export const AUDIT_ACTIONS = {
+  "rights.save": "Rights saved",
+  "config.timeleftforkbs": "KBS time changed",
+  "config.permissionSchema": "Permission schema changed",
+  "config.adminSecurity": "Idle sign-out changed",
+  "user.create": "User created",
+  "user.update": "User profile edited",
+  "user.disable": "User disabled",
+  "user.enable": "User enabled",
+  "user.delete": "User deleted",
+  "user.resetLink": "Password reset link created",
+  "user.link": "Sign-in account linked",
+  "collection.clear": "Collection cleared",
+  "collection.restore": "Snapshot restored",
+  "import.draft": "Import draft created",
+  "question.import": "Questions imported",
+  "version.publish": "Version published",
+  "version.rollback": "Version rolled back",
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export type AuditInput = {
+  action: AuditAction;
+  // document or collection path the action applied to
+  target: string;
+  // human-readable target, e.g. the user's name
+  targetLabel: string;
+  before: unknown;
+  after: unknown;
+  note?: string;
+};
+
+export type AuditEntry = Omit<AuditInput, "note"> & {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  at: number;
+  note: string;
+};
+
+const entryData = (input: AuditInput) => ({
+  ...input,
+  // Firestore rejects undefined
+  before: input.before ?? null,
+  after: input.after ?? null,
+  note: input.note || "",
+  actorUid: auth.currentUser?.uid || "",
+  actorEmail: auth.currentUser?.email || "",
+  at: serverTimestamp(),
+});
+
+// Adds the entry to `writer`, so it lands only if the change does. Returns its id for the
+// changed document's `auditId`.
+export const logAudit = (writer: Transaction | WriteBatch, input: AuditInput) => {
+  const ref = doc(collection(db, AUDIT_LOG));
+  // both have the same set(); TypeScript can't call it through the union
+  (writer as WriteBatch).set(ref, entryData(input));
+  return ref.id;
+};
+
+// Newest first
+export const listAuditEntries = async (max = 1000): Promise<AuditEntry[]> => {
+  const snap = await getDocs(query(collection(db, AUDIT_LOG), orderBy("at", "desc"), limit(max)));
+  return snap.docs.map((d) => {
+    const data = d.data();
+    return { ...(data as Omit<AuditEntry, "id" | "at">), id: d.id, at: data.at instanceof Timestamp ? data.at.toMillis() : Date.now() };
+  });
+};
+
+// Before/after values as short text for the viewer and exports
+export const formatAuditValue = (value: unknown): string => {
+  if (value == null) return "—";
+  if (value instanceof Timestamp) return value.toDate().toLocaleString();
+  if (typeof value !== "object") return String(value);
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && typeof v.seconds === "number" && typeof v.nanoseconds === "number"
+      ? new Date(v.seconds * 1000).toLocaleString()
+      : v
+  );
+};
@@ -0,0 +1,105 @@
+import { Timestamp } from "firebase/firestore";
+import type { DocumentData, DocumentReference } from "firebase/firestore";
+import { callAdminApi } from "./adminApi";
+import type { BulkAudit, BulkResponse, WireOp, WireValue } from "./adminApi";
+
+// Firestore rejects batches with more than 500 writes; stay well under it
+export const CHUNK_SIZE = 400;
+const MAX_RETRIES = 3;
+const TRANSIENT_CODES = ["aborted", "deadline-exceeded", "internal", "resource-exhausted", "unavailable"];
+
+export type BulkOp =
+  | { type: "set"; ref: DocumentReference; data: DocumentData; label: string }
+  | { type: "delete"; ref: DocumentReference; label: string };
+
+export type BulkProgress = { done: number; total: number; failed: number };
+export type BulkFailure = { op: BulkOp; error: string };
+export type BulkResult = { succeeded: number; failed: BulkFailure[] };
+// What an audited operation logs about itself; the counts come from its BulkResult
+export type BulkAuditContext = Omit<BulkAudit, "written" | "deleted" | "failed">;
+
+type Options = {
+  chunkSize?: number;
+  onProgress?: (progress: BulkProgress) => void;
+};
+
+// FirestoreError and AdminApiError share the `code` field
+const isTransient = (err: unknown) => TRANSIENT_CODES.includes((err as { code?: string })?.code || "");
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toWire = (value: unknown): WireValue => {
+  if (value instanceof Timestamp) return { __ts: value.toMillis() };
+  if (Array.isArray(value)) return value.map(toWire);
+  if (value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toWire(v)]));
+  return value;
+};
+
+// Bulk writes go through the server, which checks the caller's roles and commits
+// the chunk as one batch
+const commitOps = async (ops: BulkOp[]) => {
+  const wire = ops.map(
+    (op): WireOp =>
+      op.type === "set" ? { type: "set", path: op.ref.path, data: toWire(op.data) as Record<string, WireValue> } : { type: "delete", path: op.ref.path }
+  );
+  await callAdminApi<BulkResponse>("bulk", { ops: wire });
+};
+
+// Retries transient failures with exponential backoff, rethrows anything else
+const commitWithRetry = async (ops: BulkOp[]) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await commitOps(ops);
+      return;
+    } catch (err) {
+      if (!isTransient(err) || attempt >= MAX_RETRIES) throw err;
+      await sleep(500 * 2 ** attempt);
+    }
+  }
+};
+
+// Commits `ops` in bounded batches. A batch that still fails after retries is replayed
+// op by op so the result names exactly which writes did not land. Every op carries its
+// own document ref, so running the failed ops again is safe.
+export const runBulkOps = async (ops: BulkOp[], { chunkSize = CHUNK_SIZE, onProgress }: Options = {}): Promise<BulkResult> => {
+  const result: BulkResult = { succeeded: 0, failed: [] };
+  const report = () => onProgress?.({ done: result.succeeded + result.failed.length, total: ops.length, failed: result.failed.length });
+  report();
+
+  for (let i = 0; i < ops.length; i += chunkSize) {
+    const chunk = ops.slice(i, i + chunkSize);
+    try {
+      await commitWithRetry(chunk);
+      result.succeeded += chunk.length;
+    } catch (chunkErr) {
+      // the admin declined to confirm their password; don't ask again for every write
+      if ((chunkErr as { code?: string }).code === "reauth-cancelled") throw chunkErr;
+      console.warn(`Bulk chunk ${i / chunkSize + 1} failed, retrying writes one by one:`, chunkErr);
+      for (const op of chunk) {
+        try {
+          await commitWithRetry([op]);
+          result.succeeded += 1;
+        } catch (err) {
+          result.failed.push({ op, error: (err as Error).message || "Write failed" });
+        }
+      }
+    }
+    report();
+  }
+
+  return result;
+};
+
+// Logs one audit entry for a finished run of `ops`, with how many of its writes and
+// deletes landed and how many failed. Throws if the entry could not be saved.
+export const logBulkAudit = async (audit: BulkAuditContext, ops: BulkOp[], result: BulkResult) => {
+  const failedOps = new Set(result.failed.map((f) => f.op));
+  const landed = (type: BulkOp["type"]) => ops.filter((op) => op.type === type && !failedOps.has(op)).length;
+  try {
+    await callAdminApi<BulkResponse>("bulk", {
+      ops: [],
+      audit: { ...audit, written: landed("set"), deleted: landed("delete"), failed: failedOps.size },
+    });
+  } catch (err) {
+    throw new Error(`The writes finished, but they could not be logged: ${(err as Error).message}`);
+  }
+};
@@ -0,0 +1,47 @@
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import { db } from "../../firebase";
+
+// Canonical city list, maintained by admins in `config/cities`:
+//   { list: [{ name: "Kanpur", aliases: ["कानपुर", "Cawnpore"] }, ...] }
+export type CityEntry = { name: string; aliases: string[] };
+export type CityLookup = Map<string, string>;
+
+const citiesDoc = () => doc(db, "config", "cities");
+
+// Trim, NFC-normalize and collapse runs of whitespace (incl. NBSP) to one space
+export const normalizeText = (value: string) => value.normalize("NFC").replace(/\s+/g, " ").trim();
+
+const lookupKey = (value: string) => normalizeText(value).toLowerCase();
+
+export const buildCityLookup = (entries: CityEntry[]): CityLookup => {
+  const lookup: CityLookup = new Map();
+  entries.forEach((e) => {
+    [e.name, ...e.aliases].forEach((alias) => lookup.set(lookupKey(alias), normalizeText(e.name)));
+  });
+  return lookup;
+};
+
+// Unknown cities are returned normalized but otherwise unchanged
+export const canonicalCity = (value: string, lookup: CityLookup) => lookup.get(lookupKey(value)) ?? normalizeText(value);
+
+// One city per line, canonical name first: "Kanpur, कानपुर, Cawnpore"
+export const parseCityList = (text: string): CityEntry[] =>
+  text
+    .split("\n")
+    .map((line) => line.split(",").map(normalizeText).filter(Boolean))
+    .filter((parts) => parts.length > 0)
+    .map(([name, ...aliases]) => ({ name, aliases }));
+
+export const formatCityList = (entries: CityEntry[]) => entries.map((e) => [e.name, ...e.aliases].join(", ")).join("\n");
+
+export const subscribeCities = (onChange: (entries: CityEntry[]) => void) =>
+  onSnapshot(
+    citiesDoc(),
+    (snap) => onChange(snap.exists() ? ((snap.data().list as CityEntry[]) ?? []) : []),
+    (err) => {
+      console.error("Failed to subscribe to city list:", err);
+      onChange([]);
+    }
+  );
+
+export const saveCities = (entries: CityEntry[]) => setDoc(citiesDoc(), { list: entries });
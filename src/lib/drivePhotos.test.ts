@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { extractDriveFileId, isDriveUrl, toDirectImageUrl } from "./drivePhotos";
+
+const ID = "1AbC-dEf_23456789xyz";
+const DIRECT = `https://lh3.googleusercontent.com/d/${ID}`;
+
+describe("extractDriveFileId", () => {
+  it.each([
+    [`https://drive.google.com/file/d/${ID}/view?usp=drive_link`],
+    [`https://drive.google.com/file/u/0/d/${ID}/preview`],
+    [`https://drive.google.com/open?id=${ID}`],
+    [`https://drive.google.com/uc?id=${ID}&export=view`],
+    [`https://drive.google.com/uc?export=view&id=${ID}`],
+    [DIRECT],
+    [`  https://drive.google.com/file/d/${ID}/view  `],
+  ])("finds the file id in %s", (url) => {
+    expect(extractDriveFileId(url)).toBe(ID);
+  });
+
+  it.each([
+    ["https://example.com/file/d/1AbC-dEf_23456789xyz/view"],
+    ["https://example.com/photo.jpg?id=1AbC-dEf_23456789xyz"],
+    ["https://drive.google.com/drive/folders"],
+    ["https://drive.google.com/open?id=short"],
+    ["not a url"],
+    [""],
+    ["   "],
+  ])("finds nothing in %j", (url) => {
+    expect(extractDriveFileId(url)).toBeNull();
+    expect(isDriveUrl(url)).toBe(false);
+  });
+});
+
+describe("toDirectImageUrl", () => {
+  it("turns Drive share links into direct image URLs", () => {
+    expect(toDirectImageUrl(`https://drive.google.com/file/d/${ID}/view?usp=drive_link`)).toBe(DIRECT);
+    expect(toDirectImageUrl(`https://drive.google.com/open?id=${ID}`)).toBe(DIRECT);
+    expect(toDirectImageUrl(`https://drive.google.com/uc?id=${ID}&export=view`)).toBe(DIRECT);
+  });
+
+  it("keeps a direct URL as it is", () => {
+    expect(toDirectImageUrl(DIRECT)).toBe(DIRECT);
+  });
+
+  it("returns other URLs and empty input trimmed but otherwise unchanged", () => {
+    expect(toDirectImageUrl(" https://example.com/photo.jpg ")).toBe("https://example.com/photo.jpg");
+    expect(toDirectImageUrl("")).toBe("");
+    expect(toDirectImageUrl("   ")).toBe("");
+  });
+});
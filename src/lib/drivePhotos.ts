@@ -0,0 +1,31 @@
+// Google Drive share links (".../file/d/<id>/view?usp=drive_link") open the Drive viewer,
+// not the image, so the app cannot use them as an image source. These helpers are pure
+// so they can be exercised without a browser or network.
+
+const DRIVE_HOSTS = ["drive.google.com", "docs.google.com", "lh3.googleusercontent.com"];
+
+export const extractDriveFileId = (value: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (!DRIVE_HOSTS.includes(url.hostname)) return null;
+
+  // /file/d/<id>/view, /file/u/0/d/<id>/preview, lh3.googleusercontent.com/d/<id>
+  const pathMatch = url.pathname.match(/\/d\/([A-Za-z0-9_-]{10,})/);
+  if (pathMatch) return pathMatch[1];
+
+  // /open?id=<id>, /uc?export=view&id=<id>, /thumbnail?id=<id>
+  const id = url.searchParams.get("id");
+  return id && /^[A-Za-z0-9_-]{10,}$/.test(id) ? id : null;
+};
+
+export const isDriveUrl = (value: string) => extractDriveFileId(value) != null;
+
+// Direct image URL for a Drive link; any other URL is returned unchanged
+export const toDirectImageUrl = (value: string): string => {
+  const id = extractDriveFileId(value);
+  return id ? `https://lh3.googleusercontent.com/d/${id}` : value.trim();
+};
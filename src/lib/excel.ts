@@ -0,0 +1,47 @@
+import * as XLSX from "xlsx";
+
+// A single spreadsheet row as returned by `sheet_to_json`: header -> cell value
+export type RawRow = Record<string, unknown>;
+
+export type Sheet = { name: string; rows: RawRow[] };
+
+// Every sheet of the workbook, in workbook order (empty sheets included)
+export const parseWorkbook = (file: File): Promise<Sheet[]> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = e.target?.result;
+        const workbook = XLSX.read(data, { type: "binary" });
+        resolve(
+          workbook.SheetNames.map((name) => ({
+            name,
+            rows: XLSX.utils.sheet_to_json<RawRow>(workbook.Sheets[name]),
+          }))
+        );
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsBinaryString(file);
+  });
+};
+
+// Union of all headers across rows, in first-seen order
+export const collectHeaders = (rows: RawRow[]) => {
+  const seen = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((k) => seen.add(k)));
+  return Array.from(seen);
+};
+
+export type ExportFormat = "xlsx" | "csv";
+
+// Triggers a browser download of `rows` with exactly `columns` as the header row
+export const downloadRows = (rows: RawRow[], columns: string[], baseName: string, format: ExportFormat) => {
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: columns });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
+  const date = new Date().toISOString().slice(0, 10);
+  XLSX.writeFile(workbook, `${baseName}-${date}.${format}`, { bookType: format });
+};
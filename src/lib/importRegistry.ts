@@ -0,0 +1,46 @@
+import type { Sheet } from "./excel";
+import { WALL_FIELDS } from "./wallImport";
+import type { FieldSpec } from "./wallImport";
+import { KEY_STRATEGIES } from "./wallUpsert";
+import type { KeyStrategy } from "./wallUpsert";
+
+// A collection the panel can import spreadsheets into. Adding an entry here adds an
+// upload section and makes workbook sheets with a matching name importable.
+export type ImportTarget = {
+  // content key: the legacy Firestore collection and the key of its version pointer
+  collection: string;
+  label: string;
+  fields: FieldSpec[];
+  // natural keys the upsert can match on; the first is the default
+  keyStrategies: KeyStrategy[];
+  // workbook sheet names that import into this collection (compared case-insensitively)
+  sheetNames: string[];
+};
+
+export const IMPORT_TARGETS: ImportTarget[] = [
+  {
+    collection: "WOF",
+    label: "Wall of Fame",
+    fields: WALL_FIELDS,
+    keyStrategies: KEY_STRATEGIES,
+    sheetNames: ["WOF", "Wall of Fame"],
+  },
+  {
+    collection: "WOP",
+    label: "Wall of Participants",
+    fields: WALL_FIELDS,
+    keyStrategies: KEY_STRATEGIES,
+    sheetNames: ["WOP", "Wall of Participants"],
+  },
+];
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const findTargetForSheet = (sheetName: string) =>
+  IMPORT_TARGETS.find((t) => t.sheetNames.some((n) => normalizeName(n) === normalizeName(sheetName)));
+
+// The sheet a single-collection upload should use: one named for the target, else the first
+export const pickSheetFor = (target: ImportTarget, sheets: Sheet[]) =>
+  sheets.find((s) => findTargetForSheet(s.name) === target) || sheets[0];
+
+export const hasPhotos = (target: ImportTarget) => target.fields.some((f) => f.key === "Photo");
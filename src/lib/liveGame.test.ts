@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { canRunControl, canTransition, LIVE_PHASES, parseLiveSession } from "./liveGame";
+import type { HostControl, LivePhase, LiveSession } from "./liveGame";
+
+// Every move the host may make; any pair not listed must be refused
+const ALLOWED: Record<LivePhase, LivePhase[]> = {
+  waiting: ["question", "ended"],
+  question: ["userLocked", "waiting", "ended"],
+  userLocked: ["adminLocked", "waiting", "ended"],
+  adminLocked: ["result", "waiting", "ended"],
+  result: ["question", "waiting", "ended"],
+  ended: ["waiting"],
+};
+
+const PAIRS = LIVE_PHASES.flatMap((from) => LIVE_PHASES.map((to) => [from, to] as const));
+
+const sessionIn = (phase: LivePhase, overrides: Partial<LiveSession> = {}): LiveSession => ({
+  ...parseLiveSession({}).session,
+  phase,
+  ...overrides,
+});
+
+describe("canTransition", () => {
+  it.each(PAIRS.filter(([from, to]) => ALLOWED[from].includes(to)))("allows %s → %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each(PAIRS.filter(([from, to]) => !ALLOWED[from].includes(to)))("refuses %s → %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe("canRunControl", () => {
+  // Controls that move the session follow the transitions above
+  it.each([
+    ["lock", ["userLocked"]],
+    ["reveal", ["adminLocked"]],
+    ["next", ["waiting", "result"]],
+    ["push", ["waiting", "result"]],
+    ["reset", ["question", "userLocked", "adminLocked", "result", "ended"]],
+    ["end", ["waiting", "question", "userLocked", "adminLocked", "result"]],
+  ] as [HostControl, LivePhase[]][])("runs %s only from %j", (control, phases) => {
+    LIVE_PHASES.forEach((phase) => expect(canRunControl(control, sessionIn(phase))).toBe(phases.includes(phase)));
+  });
+
+  it("keeps the next question from skipping the host's lock and reveal", () => {
+    expect(canRunControl("next", sessionIn("userLocked", { userLocked: true }))).toBe(false);
+    expect(canRunControl("push", sessionIn("userLocked", { userLocked: true }))).toBe(false);
+  });
+
+  it("allows lifelines only while a question is open", () => {
+    LIVE_PHASES.forEach((phase) => expect(canRunControl("lifeline", sessionIn(phase))).toBe(phase === "question"));
+  });
+
+  it("pauses a running timer and resumes a paused one", () => {
+    expect(canRunControl("pause", sessionIn("question"))).toBe(true);
+    expect(canRunControl("pause", sessionIn("question", { timerPaused: true }))).toBe(false);
+    expect(canRunControl("pause", sessionIn("userLocked"))).toBe(false);
+    expect(canRunControl("resume", sessionIn("question"))).toBe(false);
+    expect(canRunControl("resume", sessionIn("question", { timerPaused: true }))).toBe(true);
+    expect(canRunControl("resume", sessionIn("userLocked", { timerPaused: true }))).toBe(true);
+    expect(canRunControl("resume", sessionIn("result", { timerPaused: true }))).toBe(false);
+  });
+});
+
+describe("parseLiveSession", () => {
+  const phaseOf = (data: Record<string, unknown>) => parseLiveSession(data).session.phase;
+
+  it("reads a complete session without problems", () => {
+    const { session, problems } = parseLiveSession({
+      phase: "question",
+      questionIndex: 3,
+      question: { id: "q1", text: "Capital of India?", answerIndex: 1 },
+      options: ["Mumbai", "Delhi", "Kolkata", "Chennai"],
+      selected: 2,
+      lifelines: { fiftyFifty: "used" },
+    });
+    expect(problems).toEqual([]);
+    expect(session).toMatchObject({
+      phase: "question",
+      questionIndex: 3,
+      question: { id: "q1", text: "Capital of India?", answerIndex: 1 },
+      selected: 2,
+      lifelines: { fiftyFifty: "used", audiencePoll: "available", phoneAFriend: "available" },
+    });
+  });
+
+  // Older player builds set only the flags, without moving the phase along
+  it.each([
+    [{ phase: "question", userLocked: true }, "userLocked"],
+    [{ phase: "question", userLocked: true, adminLocked: true }, "adminLocked"],
+    [{ phase: "userLocked", adminLocked: true, revealed: true }, "result"],
+    [{ userLocked: true }, "userLocked"],
+    [{ revealed: true }, "result"],
+    [{ question: "Capital of India?" }, "question"],
+    [{}, "waiting"],
+  ] as [Record<string, unknown>, LivePhase][])("takes %j as %s", (data, phase) => {
+    expect(phaseOf(data)).toBe(phase);
+  });
+
+  it("keeps an ended session ended whatever the flags say", () => {
+    expect(phaseOf({ phase: "ended", userLocked: true, revealed: true })).toBe("ended");
+  });
+
+  it("reads a plain-text question from older player builds", () => {
+    expect(parseLiveSession({ question: "Capital of India?" }).session.question).toEqual({ id: null, text: "Capital of India?", answerIndex: null });
+  });
+
+  it("ignores fields it can't trust and reports them", () => {
+    const { session, problems } = parseLiveSession({
+      phase: "paused",
+      question: { text: "Q", answerIndex: 7 },
+      options: ["a", "b"],
+      selected: 5,
+      lifelines: { fiftyFifty: "maybe" },
+    });
+    expect(session).toMatchObject({ phase: "question", selected: null, question: { answerIndex: null }, lifelines: { fiftyFifty: "available" } });
+    expect(problems).toEqual([
+      "selected is not one of the options",
+      "question.answerIndex is not one of the options",
+      "unknown fiftyFifty lifeline status",
+      'unknown phase "paused"',
+    ]);
+  });
+});
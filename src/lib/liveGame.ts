@@ -0,0 +1,195 @@
+// The game state of a live quiz session (the `live_sessions/{id}` doc), read defensively:
+// the player app writes most of it, so every field is checked before the panel trusts it.
+
+// waiting → question → userLocked → adminLocked → result → question …; reset goes back
+// to waiting and end is final until a reset
+export type LivePhase = "waiting" | "question" | "userLocked" | "adminLocked" | "result" | "ended";
+
+export const LIVE_PHASES: LivePhase[] = ["waiting", "question", "userLocked", "adminLocked", "result", "ended"];
+
+export type LifelineStatus = "available" | "requested" | "used" | "denied";
+
+export const LIFELINES = [
+  { key: "fiftyFifty", label: "50:50" },
+  { key: "audiencePoll", label: "Audience poll" },
+  { key: "phoneAFriend", label: "Phone a friend" },
+] as const;
+
+export type LifelineKey = (typeof LIFELINES)[number]["key"];
+
+export type LiveQuestion = {
+  // kbsQuestions id when the host pushed it from the question bank
+  id: string | null;
+  text: string;
+  // null when the player app didn't send the answer
+  answerIndex: number | null;
+};
+
+export type LiveSession = {
+  phase: LivePhase;
+  questionIndex: number;
+  question: LiveQuestion | null;
+  // "" is an option hidden by 50:50
+  options: string[];
+  selected: number | null;
+  userLocked: boolean;
+  adminLocked: boolean;
+  revealed: boolean;
+  activePlayer: string;
+  group: string;
+  // seconds left, or whatever label the player app shows
+  timer: number | string | null;
+  timerPaused: boolean;
+  lifelines: Record<LifelineKey, LifelineStatus>;
+  // answer timing, in ms since the epoch: the host stamps when a question starts and
+  // how long the timer was paused; the player app may stamp when the player locked
+  questionStartedAt: number | null;
+  timerPausedAt: number | null;
+  pausedMs: number;
+  userLockedAt: number | null;
+};
+
+export type ParsedLiveSession = {
+  session: LiveSession;
+  // fields that had to be ignored, shown to the host
+  problems: string[];
+};
+
+const LIFELINE_STATUSES: LifelineStatus[] = ["available", "requested", "used", "denied"];
+
+const parseQuestion = (value: unknown, problems: string[]): LiveQuestion | null => {
+  if (value === null || value === undefined || value === "") return null;
+  // older player builds store the question as plain text
+  if (typeof value === "string") return { id: null, text: value, answerIndex: null };
+  if (typeof value !== "object") {
+    problems.push("question is not text or an object");
+    return null;
+  }
+  const data = value as Record<string, unknown>;
+  if (typeof data.text !== "string") problems.push("question.text is missing");
+  const answerIndex = Number.isInteger(data.answerIndex) ? (data.answerIndex as number) : null;
+  if (data.answerIndex !== undefined && answerIndex === null) problems.push("question.answerIndex is not a whole number");
+  return { id: typeof data.id === "string" ? data.id : null, text: typeof data.text === "string" ? data.text : "", answerIndex };
+};
+
+// The stored phase is trusted only as far as the flags agree with it: the player app
+// sets userLocked without always moving the phase along
+const derivePhase = (data: Record<string, unknown>, hasQuestion: boolean, problems: string[]): LivePhase => {
+  const stored = LIVE_PHASES.find((p) => p === data.phase);
+  if (data.phase !== undefined && !stored) problems.push(`unknown phase "${String(data.phase)}"`);
+  if (stored === "ended") return "ended";
+  if (data.revealed === true || stored === "result") return "result";
+  if (data.adminLocked === true) return "adminLocked";
+  if (data.userLocked === true) return "userLocked";
+  if (hasQuestion || stored === "question") return "question";
+  return "waiting";
+};
+
+export const parseLiveSession = (data: Record<string, unknown>): ParsedLiveSession => {
+  const problems: string[] = [];
+  const question = parseQuestion(data.question, problems);
+
+  let options: string[] = [];
+  if (Array.isArray(data.options)) options = data.options.map((opt) => (typeof opt === "string" ? opt : String(opt ?? "")));
+  else if (data.options !== undefined && data.options !== null) problems.push("options is not a list");
+
+  let selected: number | null = null;
+  if (Number.isInteger(data.selected) && (data.selected as number) >= 0 && (data.selected as number) < options.length) selected = data.selected as number;
+  else if (data.selected !== undefined && data.selected !== null) problems.push("selected is not one of the options");
+
+  if (question?.answerIndex != null && question.answerIndex >= options.length) {
+    problems.push("question.answerIndex is not one of the options");
+    question.answerIndex = null;
+  }
+
+  const storedLifelines = data.lifelines && typeof data.lifelines === "object" ? (data.lifelines as Record<string, unknown>) : {};
+  const lifelines = {} as Record<LifelineKey, LifelineStatus>;
+  LIFELINES.forEach(({ key }) => {
+    const status = LIFELINE_STATUSES.find((s) => s === storedLifelines[key]);
+    if (storedLifelines[key] !== undefined && !status) problems.push(`unknown ${key} lifeline status`);
+    lifelines[key] = status || "available";
+  });
+
+  const timer = typeof data.timer === "number" || typeof data.timer === "string" ? data.timer : null;
+  const time = (value: unknown) => (typeof value === "number" && value > 0 ? value : null);
+
+  return {
+    session: {
+      phase: derivePhase(data, !!question, problems),
+      questionIndex: Number.isInteger(data.questionIndex) ? (data.questionIndex as number) : 0,
+      question,
+      options,
+      selected,
+      userLocked: data.userLocked === true,
+      adminLocked: data.adminLocked === true,
+      revealed: data.revealed === true,
+      activePlayer: typeof data.activePlayer === "string" ? data.activePlayer : "",
+      group: typeof data.group === "string" ? data.group : "",
+      timer,
+      timerPaused: data.timerPaused === true,
+      lifelines,
+      questionStartedAt: time(data.questionStartedAt),
+      timerPausedAt: time(data.timerPausedAt),
+      pausedMs: time(data.pausedMs) || 0,
+      userLockedAt: time(data.userLockedAt),
+    },
+    problems,
+  };
+};
+
+// Phases each phase may move to
+const TRANSITIONS: Record<LivePhase, LivePhase[]> = {
+  waiting: ["question", "ended"],
+  question: ["userLocked", "waiting", "ended"],
+  userLocked: ["adminLocked", "waiting", "ended"],
+  adminLocked: ["result", "waiting", "ended"],
+  result: ["question", "waiting", "ended"],
+  ended: ["waiting"],
+};
+
+export const canTransition = (from: LivePhase, to: LivePhase) => TRANSITIONS[from].includes(to);
+
+export type HostControl = "lock" | "reveal" | "next" | "push" | "lifeline" | "pause" | "resume" | "reset" | "end";
+
+// The phase each control moves the session to; the others act within a phase
+const CONTROL_TARGETS: Partial<Record<HostControl, LivePhase>> = {
+  lock: "adminLocked",
+  reveal: "result",
+  next: "question",
+  push: "question",
+  reset: "waiting",
+  end: "ended",
+};
+
+const IN_PHASE_CONTROLS: Partial<Record<HostControl, LivePhase[]>> = {
+  lifeline: ["question"],
+  pause: ["question"],
+  resume: ["question", "userLocked"],
+};
+
+export const controlTarget = (control: HostControl) => CONTROL_TARGETS[control] || null;
+
+export const canRunControl = (control: HostControl, session: LiveSession) => {
+  const target = CONTROL_TARGETS[control];
+  if (target) return canTransition(session.phase, target);
+  if (!IN_PHASE_CONTROLS[control]?.includes(session.phase)) return false;
+  if (control === "pause") return !session.timerPaused;
+  if (control === "resume") return session.timerPaused;
+  return true;
+};
+
+// Same question, same answer and same phase: a host action based on `seen` still applies
+export const sameLiveState = (seen: LiveSession, current: LiveSession) =>
+  seen.phase === current.phase &&
+  seen.questionIndex === current.questionIndex &&
+  seen.selected === current.selected &&
+  seen.question?.text === current.question?.text &&
+  LIFELINES.every(({ key }) => seen.lifelines[key] === current.lifelines[key]);
+
+// 50:50 blanks two wrong options
+export const fiftyFiftyOptions = (options: string[], answerIndex: number, random = Math.random) => {
+  const wrong = options.map((_, idx) => idx).filter((idx) => idx !== answerIndex && options[idx] !== "");
+  const hidden = new Set<number>();
+  while (hidden.size < 2 && hidden.size < wrong.length) hidden.add(wrong[Math.floor(random() * wrong.length)]);
+  return options.map((opt, idx) => (hidden.has(idx) ? "" : opt));
+};
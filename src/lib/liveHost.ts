@@ -0,0 +1,109 @@
+import { doc, runTransaction } from "firebase/firestore";
+import type { Transaction } from "firebase/firestore";
+import { auth, db } from "../../firebase";
+import { canRunControl, controlTarget, fiftyFiftyOptions, parseLiveSession, sameLiveState } from "./liveGame";
+import type { HostControl, LifelineKey, LiveSession } from "./liveGame";
+import { setSessionArchived } from "./liveSessions";
+import { questionRef, toBankQuestion } from "./questionBank";
+import { resultFromSession, resultsCollection } from "./liveResults";
+
+const CONTROL_LABELS: Record<HostControl, string> = {
+  lock: "lock the answer",
+  reveal: "reveal the answer",
+  next: "load the next question",
+  push: "push a question",
+  lifeline: "change a lifeline",
+  pause: "pause the timer",
+  resume: "resume the timer",
+  reset: "reset the session",
+  end: "end the session",
+};
+
+// Per-question state the player app resets when a new question loads
+const clearedAnswer = { selected: null, userLocked: false, userLockedAt: null, adminLocked: false, revealed: false, timerPaused: false, timerPausedAt: null, pausedMs: 0 };
+
+// A new question starts its answer clock
+const newQuestion = (current: LiveSession) => ({ ...clearedAnswer, questionIndex: current.questionIndex + 1, questionStartedAt: Date.now() });
+
+// Applies one host control in a transaction against the state the host was looking at.
+// It is refused when the session moved on in the meantime (the player locked another
+// answer, another host advanced it) or when the control isn't valid in the current phase.
+const runControl = (
+  sessionId: string,
+  seen: LiveSession,
+  control: HostControl,
+  change: (current: LiveSession, transaction: Transaction) => Record<string, unknown> | Promise<Record<string, unknown>>
+) =>
+  runTransaction(db, async (transaction) => {
+    const ref = doc(db, "live_sessions", sessionId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("This session no longer exists");
+    const { session: current } = parseLiveSession(snap.data());
+    if (!sameLiveState(seen, current)) throw new Error(`The session changed before you could ${CONTROL_LABELS[control]}. Check it and try again.`);
+    if (!canRunControl(control, current)) throw new Error(`You can't ${CONTROL_LABELS[control]} while the session is in the ${current.phase} phase`);
+    const target = controlTarget(control);
+    transaction.update(ref, { ...(await change(current, transaction)), ...(target ? { phase: target } : {}) });
+  });
+
+// Locks the answer and keeps it as a result record for the leaderboard
+export const lockAnswer = (sessionId: string, seen: LiveSession) =>
+  runControl(sessionId, seen, "lock", (current, transaction) => {
+    const now = Date.now();
+    transaction.set(doc(resultsCollection(sessionId)), resultFromSession(sessionId, current, now, auth.currentUser?.email || ""));
+    return { adminLocked: true };
+  });
+
+export const revealAnswer = (sessionId: string, seen: LiveSession) => runControl(sessionId, seen, "reveal", () => ({ revealed: true }));
+
+// The player app loads the question at `questionIndex`
+export const nextQuestion = (sessionId: string, seen: LiveSession) =>
+  runControl(sessionId, seen, "next", newQuestion);
+
+// Sends a question bank entry to the session and marks it used in the same transaction,
+// so two hosts can't push the same question
+export const pushQuestion = (sessionId: string, seen: LiveSession, questionId: string) =>
+  runControl(sessionId, seen, "push", async (current, transaction) => {
+    const snap = await transaction.get(questionRef(questionId));
+    if (!snap.exists()) throw new Error("This question was deleted from the bank");
+    const question = toBankQuestion(snap.id, snap.data());
+    if (question.usedAt) throw new Error(`This question was already used${question.usedInSession ? ` in ${question.usedInSession}` : ""}`);
+    transaction.update(snap.ref, { usedAt: Date.now(), usedInSession: sessionId });
+    return {
+      ...newQuestion(current),
+      question: { id: question.id, text: question.text, answerIndex: question.answerIndex },
+      options: question.options,
+    };
+  });
+
+// Paused time is left out of the player's answer time
+export const setTimerPaused = (sessionId: string, seen: LiveSession, paused: boolean) =>
+  runControl(sessionId, seen, paused ? "pause" : "resume", (current) => {
+    const now = Date.now();
+    if (paused) return { timerPaused: true, timerPausedAt: now };
+    return { timerPaused: false, timerPausedAt: null, pausedMs: current.pausedMs + (current.timerPausedAt ? now - current.timerPausedAt : 0) };
+  });
+
+export const triggerLifeline = (sessionId: string, seen: LiveSession, key: LifelineKey) =>
+  runControl(sessionId, seen, "lifeline", (current) => {
+    if (current.lifelines[key] === "used" || current.lifelines[key] === "denied") throw new Error("This lifeline was already used or denied");
+    if (key !== "fiftyFifty") return { [`lifelines.${key}`]: "used" };
+    const answerIndex = current.question?.answerIndex ?? null;
+    if (answerIndex === null) throw new Error("50:50 needs a question with a known answer");
+    return { [`lifelines.${key}`]: "used", options: fiftyFiftyOptions(current.options, answerIndex) };
+  });
+
+export const denyLifeline = (sessionId: string, seen: LiveSession, key: LifelineKey) =>
+  runControl(sessionId, seen, "lifeline", (current) => {
+    if (current.lifelines[key] !== "requested") throw new Error("The player hasn't asked for this lifeline");
+    return { [`lifelines.${key}`]: "denied" };
+  });
+
+// Back to the start for the same player and group
+export const resetSession = (sessionId: string, seen: LiveSession) =>
+  runControl(sessionId, seen, "reset", () => ({ ...clearedAnswer, questionIndex: 0, questionStartedAt: null, question: null, options: [], lifelines: {} }));
+
+// Ends the game and archives the session with its chat room
+export const endSession = async (sessionId: string, seen: LiveSession) => {
+  await runControl(sessionId, seen, "end", () => ({ endedAt: Date.now(), timerPaused: false }));
+  await setSessionArchived(sessionId, true);
+};
@@ -0,0 +1,176 @@
+import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { db } from "../../firebase";
+import { LIFELINES } from "./liveGame";
+import type { LiveSession } from "./liveGame";
+import type { RawRow } from "./excel";
+
+// Every answer the host locks is kept, written by the lock transaction in liveHost.ts:
+//   live_sessions/{sessionId}/results/{resultId} -> AnswerResult without the id
+// Results are never edited; resetting a session starts a new game but keeps them.
+export type AnswerResult = {
+  id: string;
+  sessionId: string;
+  player: string;
+  group: string;
+  questionIndex: number;
+  // kbsQuestions id when the question came from the bank
+  questionId: string | null;
+  questionText: string;
+  selected: number | null;
+  selectedText: string;
+  answerIndex: number | null;
+  // null when the session didn't carry the correct answer
+  correct: boolean | null;
+  // question start to the player's lock, without paused time; null when untimed
+  timeTakenMs: number | null;
+  lifelinesUsed: string[];
+  lockedAt: number;
+  lockedBy: string;
+};
+
+export const resultsCollection = (sessionId: string) => collection(db, "live_sessions", sessionId, "results");
+
+// Ends at the player's own lock when the player app stamps it, else at the host's lock
+export const answerTime = (session: LiveSession, now: number) => {
+  if (!session.questionStartedAt) return null;
+  const end = session.userLockedAt && session.userLockedAt >= session.questionStartedAt ? session.userLockedAt : now;
+  const openPause = session.timerPausedAt && session.timerPausedAt < end ? end - session.timerPausedAt : 0;
+  return Math.max(0, end - session.questionStartedAt - session.pausedMs - openPause);
+};
+
+export const resultFromSession = (sessionId: string, session: LiveSession, now: number, lockedBy: string): Omit<AnswerResult, "id"> => {
+  const answerIndex = session.question?.answerIndex ?? null;
+  return {
+    sessionId,
+    player: session.activePlayer,
+    group: session.group,
+    questionIndex: session.questionIndex,
+    questionId: session.question?.id ?? null,
+    questionText: session.question?.text ?? "",
+    selected: session.selected,
+    selectedText: session.selected === null ? "" : session.options[session.selected] ?? "",
+    answerIndex,
+    correct: answerIndex === null ? null : session.selected === answerIndex,
+    timeTakenMs: answerTime(session, now),
+    lifelinesUsed: LIFELINES.filter(({ key }) => session.lifelines[key] === "used").map(({ label }) => label),
+    lockedAt: now,
+    lockedBy,
+  };
+};
+
+const toResult = (id: string, data: Record<string, unknown>): AnswerResult => ({
+  id,
+  sessionId: String(data.sessionId ?? ""),
+  player: String(data.player ?? ""),
+  group: String(data.group ?? ""),
+  questionIndex: typeof data.questionIndex === "number" ? data.questionIndex : 0,
+  questionId: typeof data.questionId === "string" ? data.questionId : null,
+  questionText: String(data.questionText ?? ""),
+  selected: typeof data.selected === "number" ? data.selected : null,
+  selectedText: String(data.selectedText ?? ""),
+  answerIndex: typeof data.answerIndex === "number" ? data.answerIndex : null,
+  correct: typeof data.correct === "boolean" ? data.correct : null,
+  timeTakenMs: typeof data.timeTakenMs === "number" ? data.timeTakenMs : null,
+  lifelinesUsed: Array.isArray(data.lifelinesUsed) ? data.lifelinesUsed.map(String) : [],
+  lockedAt: typeof data.lockedAt === "number" ? data.lockedAt : 0,
+  lockedBy: String(data.lockedBy ?? ""),
+});
+
+// Oldest first
+export const subscribeResults = (sessionId: string, onChange: (results: AnswerResult[]) => void, onError: (err: Error) => void) =>
+  onSnapshot(
+    query(resultsCollection(sessionId), orderBy("lockedAt", "asc")),
+    (snap) => onChange(snap.docs.map((d) => toResult(d.id, d.data()))),
+    (err) => {
+      console.error("Failed to subscribe to session results:", err);
+      onError(err);
+    }
+  );
+
+export type Standing = {
+  // player name, or group name in the group view
+  name: string;
+  group: string;
+  // distinct players, 1 in the player view
+  players: number;
+  answered: number;
+  correct: number;
+  totalTimeMs: number;
+  rank: number;
+};
+
+export type StandingView = "player" | "group";
+
+// More correct answers first, then less total time; equal scores share a rank
+const rankStandings = (standings: Omit<Standing, "rank">[]): Standing[] => {
+  const sorted = [...standings].sort((a, b) => b.correct - a.correct || a.totalTimeMs - b.totalTimeMs || a.name.localeCompare(b.name));
+  return sorted.map((s) => ({ ...s, rank: sorted.findIndex((o) => o.correct === s.correct && o.totalTimeMs === s.totalTimeMs) + 1 }));
+};
+
+type Totals = { name: string; group: string; names: Set<string>; answered: number; correct: number; totalTimeMs: number };
+
+export const buildStandings = (results: AnswerResult[], view: StandingView): Standing[] => {
+  const totals = new Map<string, Totals>();
+  results.forEach((r) => {
+    const player = r.player || "(unknown player)";
+    const key = view === "group" ? r.group : `${r.group}\u0000${player}`;
+    const entry = totals.get(key) || { name: view === "group" ? r.group || "(no group)" : player, group: r.group, names: new Set<string>(), answered: 0, correct: 0, totalTimeMs: 0 };
+    entry.names.add(player);
+    entry.answered += 1;
+    if (r.correct) entry.correct += 1;
+    entry.totalTimeMs += r.timeTakenMs ?? 0;
+    totals.set(key, entry);
+  });
+  return rankStandings(
+    Array.from(totals.values()).map((t) => ({ name: t.name, group: t.group, players: t.names.size, answered: t.answered, correct: t.correct, totalTimeMs: t.totalTimeMs }))
+  );
+};
+
+export const groupsOf = (results: AnswerResult[]) => Array.from(new Set(results.map((r) => r.group).filter(Boolean))).sort();
+
+// --- Excel export ---
+
+const seconds = (ms: number | null) => (ms === null ? "" : Math.round(ms / 100) / 10);
+
+const optionLabel = (idx: number | null, text: string) => (idx === null ? "" : `${String.fromCharCode(65 + idx)}. ${text}`);
+
+export const RESULT_COLUMNS = ["Player", "Group", "Question #", "Question", "Answer", "Correct", "Time (s)", "Lifelines", "Locked at", "Locked by"];
+
+export const resultRows = (results: AnswerResult[]): RawRow[] =>
+  results.map((r) => ({
+    Player: r.player,
+    Group: r.group,
+    "Question #": r.questionIndex,
+    Question: r.questionText,
+    Answer: optionLabel(r.selected, r.selectedText),
+    Correct: r.correct === null ? "?" : r.correct ? "Yes" : "No",
+    "Time (s)": seconds(r.timeTakenMs),
+    Lifelines: r.lifelinesUsed.join(", "),
+    "Locked at": new Date(r.lockedAt).toLocaleString(),
+    "Locked by": r.lockedBy,
+  }));
+
+export const STANDING_COLUMNS = ["Rank", "Name", "Group", "Players", "Correct", "Answered", "Total time (s)"];
+
+export const standingRows = (standings: Standing[]): RawRow[] =>
+  standings.map((s) => ({
+    Rank: s.rank,
+    Name: s.name,
+    Group: s.group,
+    Players: s.players,
+    Correct: s.correct,
+    Answered: s.answered,
+    "Total time (s)": seconds(s.totalTimeMs),
+  }));
+
+// Winners in the WOF/WOP import layout. City isn't known to the quiz, so it is left for
+// the admin to fill in before importing the sheet.
+export const WALL_EXPORT_COLUMNS = ["Name", "City", "WP", "Rem"];
+
+export const wallRows = (standings: Standing[], sessionName: string): RawRow[] =>
+  standings.map((s) => ({
+    Name: s.name,
+    City: "",
+    WP: `Rank ${s.rank}`,
+    Rem: `${sessionName}${s.group ? ` (${s.group})` : ""}: ${s.correct}/${s.answered} correct`,
+  }));
@@ -0,0 +1,77 @@
+import { collection, doc, onSnapshot, writeBatch } from "firebase/firestore";
+import { auth, db } from "../../firebase";
+
+// Live quiz sessions and their chat rooms share an id:
+//   live_sessions/{id}          game state written by the player app, plus the fields below
+//   live_chats/{id}             { name, createdAt, archived }
+//   live_chats/{id}/messages    chat messages
+// Hosts create named sessions; an archived session stays readable but drops out of the list.
+export type SessionInfo = {
+  id: string;
+  name: string;
+  createdAt: number;
+  createdBy: string;
+  archived: boolean;
+};
+
+// The single session the player app used before named sessions; always listed
+export const LEGACY_SESSION_ID = "live_session_global";
+
+const toSessionInfo = (id: string, data: Record<string, unknown>): SessionInfo => ({
+  id,
+  name: typeof data.name === "string" && data.name ? data.name : id,
+  createdAt: typeof data.createdAt === "number" ? data.createdAt : 0,
+  createdBy: typeof data.createdBy === "string" ? data.createdBy : "",
+  archived: data.archived === true,
+});
+
+// Sessions found in either collection, newest first. A chat room without a session doc
+// (or the other way round) is still listed.
+export const subscribeSessions = (onChange: (sessions: SessionInfo[]) => void) => {
+  const found: Record<"live_sessions" | "live_chats", Map<string, SessionInfo>> = { live_sessions: new Map(), live_chats: new Map() };
+  const emit = () => {
+    const merged = new Map(found.live_chats);
+    // the session doc wins where both exist
+    found.live_sessions.forEach((s, id) => merged.set(id, s));
+    if (!merged.has(LEGACY_SESSION_ID)) merged.set(LEGACY_SESSION_ID, toSessionInfo(LEGACY_SESSION_ID, {}));
+    onChange([...merged.values()].sort((a, b) => b.createdAt - a.createdAt));
+  };
+  const listen = (name: keyof typeof found) =>
+    onSnapshot(
+      collection(db, name),
+      (snap) => {
+        found[name] = new Map(snap.docs.map((d) => [d.id, toSessionInfo(d.id, d.data())]));
+        emit();
+      },
+      (err) => console.error(`Failed to subscribe to ${name}:`, err)
+    );
+  const unsubscribers = [listen("live_sessions"), listen("live_chats")];
+  return () => unsubscribers.forEach((u) => u());
+};
+
+// Readable ids, since the player app joins a session by id
+const sessionIdFor = (name: string) =>
+  `${name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40) || "session"}-${Date.now().toString(36)}`;
+
+export const createSession = async (name: string) => {
+  const id = sessionIdFor(name);
+  const meta = { name, createdAt: Date.now(), createdBy: auth.currentUser?.email || "", archived: false };
+  const batch = writeBatch(db);
+  batch.set(doc(db, "live_sessions", id), { ...meta, phase: "waiting" });
+  batch.set(doc(db, "live_chats", id), meta);
+  await batch.commit();
+  return id;
+};
+
+// Archives (or restores) both the game and the chat room
+export const setSessionArchived = async (id: string, archived: boolean) => {
+  const batch = writeBatch(db);
+  const change = { archived, archivedAt: archived ? Date.now() : null };
+  batch.set(doc(db, "live_sessions", id), change, { merge: true });
+  batch.set(doc(db, "live_chats", id), change, { merge: true });
+  await batch.commit();
+};
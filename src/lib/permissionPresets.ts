@@ -0,0 +1,28 @@
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import { db } from "../../firebase";
+import type { PermissionFlags } from "./permissions";
+
+// Named flag combinations, e.g. "Quiz participant" = kbsquiz + bhajanquiz.
+// Stored in config/permissionPresets as { list: PermissionPreset[] }. A user given a
+// preset keeps its id in `login/{uid}.preset`, so later hand edits show up as drift.
+export type PermissionPreset = { id: string; name: string; flags: PermissionFlags };
+
+const presetsDoc = () => doc(db, "config", "permissionPresets");
+
+export const emptyPresetFlags = (flagKeys: string[]): PermissionFlags => Object.fromEntries(flagKeys.map((f) => [f, false]));
+
+// Flags where `flags` no longer matches the preset; a flag the preset predates counts as off
+export const presetDrift = (flags: PermissionFlags, preset: PermissionPreset, flagKeys: string[]) =>
+  flagKeys.filter((f) => !!flags[f] !== !!preset.flags[f]);
+
+export const subscribePresets = (onChange: (presets: PermissionPreset[]) => void) =>
+  onSnapshot(
+    presetsDoc(),
+    (snap) => onChange(snap.exists() ? ((snap.data().list as PermissionPreset[]) ?? []) : []),
+    (err) => {
+      console.error("Failed to subscribe to permission presets:", err);
+      onChange([]);
+    }
+  );
+
+export const savePresets = (presets: PermissionPreset[]) => setDoc(presetsDoc(), { list: presets });
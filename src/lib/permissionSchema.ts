@@ -0,0 +1,36 @@
+import { doc, onSnapshot, runTransaction } from "firebase/firestore";
+import { db } from "../../firebase";
+import { logAudit } from "./audit";
+import { DEFAULT_PERMISSIONS, parsePermissionSchema, permissionKeys, PERMISSION_FLAGS } from "./permissions";
+import type { PermissionDef } from "./permissions";
+
+// config/permissionSchema, see src/lib/permissions.ts for the layout
+const schemaDoc = () => doc(db, "config", "permissionSchema");
+
+export const subscribePermissionSchema = (onChange: (defs: PermissionDef[]) => void) =>
+  onSnapshot(
+    schemaDoc(),
+    (snap) => onChange(parsePermissionSchema(snap.data())),
+    (err) => {
+      console.error("Failed to subscribe to the permission schema:", err);
+      onChange(DEFAULT_PERMISSIONS);
+    }
+  );
+
+// `keys` only ever grows: a removed flag may still be set on login docs, and
+// firestore.rules must keep users from granting it to themselves
+export const savePermissionSchema = (defs: PermissionDef[]) =>
+  runTransaction(db, async (tx) => {
+    const snap = await tx.get(schemaDoc());
+    const before = parsePermissionSchema(snap.data());
+    const known: string[] = Array.isArray(snap.data()?.keys) ? snap.data()!.keys : [];
+    const keys = Array.from(new Set([...PERMISSION_FLAGS, ...known, ...permissionKeys(defs)]));
+    const auditId = logAudit(tx, {
+      action: "config.permissionSchema",
+      target: "config/permissionSchema",
+      targetLabel: "Permission schema",
+      before: permissionKeys(before),
+      after: permissionKeys(defs),
+    });
+    tx.set(schemaDoc(), { flags: defs, keys, auditId });
+  });
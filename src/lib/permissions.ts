@@ -0,0 +1,78 @@
+// Per-user permission flags stored at the top level of each `login/{uid}` doc.
+// The set of flags is data: config/permissionSchema holds { flags: PermissionDef[], keys: string[] },
+// where `keys` is every flag key ever defined (firestore.rules reads it, see savePermissionSchema).
+// Without that doc the built-in flags below apply.
+export type PermissionDef = {
+  // field name on the login doc
+  key: string;
+  label: string;
+  description: string;
+  // column group in the rights table
+  group: string;
+};
+
+export const DEFAULT_PERMISSIONS: PermissionDef[] = [
+  { key: "postapproval", label: "Post Approve", description: "Approve posts", group: "Posts" },
+  { key: "postedit", label: "Post Edit", description: "Edit any post", group: "Posts" },
+  { key: "postdelete", label: "Post Delete", description: "Delete any post", group: "Posts" },
+  { key: "postvisible", label: "Post Visible", description: "Change whether posts are visible", group: "Posts" },
+  { key: "kbsquiz", label: "kbsquiz", description: "Take part in the KBS quiz", group: "Quizzes" },
+  { key: "bhajanquiz", label: "bhajanquiz", description: "Take part in the bhajan quiz", group: "Quizzes" },
+  { key: "access_ojm", label: "Access OJM", description: "Open the OJM section of the app", group: "Access" },
+];
+
+// The built-in keys; firestore.rules keeps its own copy of this list
+export const PERMISSION_FLAGS = DEFAULT_PERMISSIONS.map((d) => d.key);
+
+export type PermissionFlags = Record<string, boolean>;
+
+// Lower-case so a flag can't shadow isAdmin; the rest are profile and panel fields
+export const PERMISSION_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const RESERVED_KEYS = ["id", "uid", "name", "email", "roles", "preset", "disabled"];
+
+export const permissionKeys = (defs: PermissionDef[]) => defs.map((d) => d.key);
+
+export const permissionLabel = (defs: PermissionDef[], key: string) => defs.find((d) => d.key === key)?.label || key;
+
+// Problem with a schema about to be saved, or null when it is fine
+export const validatePermissionDefs = (defs: PermissionDef[]): string | null => {
+  const keys = new Set<string>();
+  for (const d of defs) {
+    if (!PERMISSION_KEY_PATTERN.test(d.key)) return `"${d.key}" is not a valid key (lower-case letters, digits and _)`;
+    if (RESERVED_KEYS.includes(d.key)) return `"${d.key}" is reserved`;
+    if (keys.has(d.key)) return `"${d.key}" is defined twice`;
+    if (!d.label.trim()) return `"${d.key}" needs a label`;
+    keys.add(d.key);
+  }
+  return null;
+};
+
+// Reads config/permissionSchema; a missing, empty or broken doc falls back to the defaults
+export const parsePermissionSchema = (data: Record<string, unknown> | undefined): PermissionDef[] => {
+  const list = Array.isArray(data?.flags) ? (data.flags as Record<string, unknown>[]) : [];
+  const defs = list.map((d) => ({
+    key: String(d?.key ?? ""),
+    label: String(d?.label ?? d?.key ?? ""),
+    description: String(d?.description ?? ""),
+    group: String(d?.group ?? ""),
+  }));
+  return defs.length > 0 && validatePermissionDefs(defs) === null ? defs : DEFAULT_PERMISSIONS;
+};
+
+// Flags grouped for the table header; groups appear in the order they are first used
+export const groupPermissions = (defs: PermissionDef[]) => {
+  const groups: { group: string; defs: PermissionDef[] }[] = [];
+  defs.forEach((d) => {
+    const found = groups.find((g) => g.group === d.group);
+    if (found) found.defs.push(d);
+    else groups.push({ group: d.group, defs: [d] });
+  });
+  return groups;
+};
+
+// Keeps the given flags, rejecting keys the schema doesn't define
+export const pickPermissionFlags = (data: Record<string, unknown>, keys: string[]): PermissionFlags => {
+  const unknown = Object.keys(data).find((k) => !keys.includes(k));
+  if (unknown) throw new Error(`Unknown permission "${unknown}"`);
+  return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, !!v]));
+};
@@ -0,0 +1,228 @@
+import { collection, deleteDoc, doc, onSnapshot, orderBy, query, setDoc, updateDoc } from "firebase/firestore";
+import { db } from "../../firebase";
+import type { RawRow } from "./excel";
+import { buildPreview } from "./wallImport";
+import type { ColumnMapping, FieldSpec, ImportRecord, RowIssue } from "./wallImport";
+import { normalizeText } from "./cities";
+import { logBulkAudit, runBulkOps } from "./bulkWrite";
+import type { BulkOp, BulkProgress } from "./bulkWrite";
+
+// KBS question bank, readable by quiz hosts only since it holds the answers:
+//   kbsQuestions/{id} -> { text, options: [4], answerIndex, category, difficulty, language,
+//                          createdAt, updatedAt, usedAt, usedInSession }
+// `usedAt` is set when a host pushes the question into a live session, so it isn't asked twice.
+export const QUESTION_BANK = "kbsQuestions";
+
+export type Difficulty = "easy" | "medium" | "hard";
+export type QuestionLanguage = "hi" | "en";
+
+export const DIFFICULTIES: { id: Difficulty; label: string; aliases: string[] }[] = [
+  { id: "easy", label: "Easy", aliases: ["1", "आसान", "सरल"] },
+  { id: "medium", label: "Medium", aliases: ["2", "मध्यम"] },
+  { id: "hard", label: "Hard", aliases: ["3", "कठिन"] },
+];
+
+export const LANGUAGES: { id: QuestionLanguage; label: string; aliases: string[] }[] = [
+  { id: "hi", label: "Hindi", aliases: ["hindi", "हिंदी", "हिन्दी"] },
+  { id: "en", label: "English", aliases: ["english", "अंग्रेजी", "अंग्रेज़ी"] },
+];
+
+export const OPTION_COUNT = 4;
+export const DEFAULT_CATEGORY = "General";
+
+export type QuestionInput = {
+  text: string;
+  options: string[];
+  answerIndex: number;
+  category: string;
+  difficulty: Difficulty;
+  language: QuestionLanguage;
+};
+
+export type BankQuestion = QuestionInput & {
+  id: string;
+  createdAt: number;
+  usedAt: number | null;
+  usedInSession: string | null;
+};
+
+export const emptyQuestion = (): QuestionInput => ({
+  text: "",
+  options: Array(OPTION_COUNT).fill(""),
+  answerIndex: 0,
+  category: DEFAULT_CATEGORY,
+  difficulty: "medium",
+  language: "hi",
+});
+
+const questionKey = (text: string) => normalizeText(text).toLowerCase();
+
+// null when the question can be saved
+export const validateQuestion = (q: QuestionInput): string | null => {
+  if (!normalizeText(q.text)) return "Question text is required";
+  if (q.options.length !== OPTION_COUNT || q.options.some((opt) => !normalizeText(opt))) return `All ${OPTION_COUNT} options are required`;
+  if (new Set(q.options.map(questionKey)).size !== OPTION_COUNT) return "Options must be different from each other";
+  if (!Number.isInteger(q.answerIndex) || q.answerIndex < 0 || q.answerIndex >= OPTION_COUNT) return "Pick the correct option";
+  if (!DIFFICULTIES.some((d) => d.id === q.difficulty)) return "Unknown difficulty";
+  if (!LANGUAGES.some((l) => l.id === q.language)) return "Unknown language";
+  return null;
+};
+
+// Only the authored fields, so an edited BankQuestion can't write back its usage
+const cleanQuestion = (q: QuestionInput): QuestionInput => ({
+  text: normalizeText(q.text),
+  options: q.options.map(normalizeText),
+  answerIndex: q.answerIndex,
+  category: normalizeText(q.category) || DEFAULT_CATEGORY,
+  difficulty: q.difficulty,
+  language: q.language,
+});
+
+export const toBankQuestion = (id: string, data: Record<string, unknown>): BankQuestion => ({
+  id,
+  text: typeof data.text === "string" ? data.text : "",
+  options: Array.isArray(data.options) ? data.options.map(String) : Array(OPTION_COUNT).fill(""),
+  answerIndex: typeof data.answerIndex === "number" ? data.answerIndex : 0,
+  category: typeof data.category === "string" && data.category ? data.category : DEFAULT_CATEGORY,
+  difficulty: DIFFICULTIES.find((d) => d.id === data.difficulty)?.id || "medium",
+  language: LANGUAGES.find((l) => l.id === data.language)?.id || "hi",
+  createdAt: typeof data.createdAt === "number" ? data.createdAt : 0,
+  usedAt: typeof data.usedAt === "number" ? data.usedAt : null,
+  usedInSession: typeof data.usedInSession === "string" ? data.usedInSession : null,
+});
+
+export const questionRef = (id: string) => doc(db, QUESTION_BANK, id);
+
+// Newest first
+export const subscribeQuestions = (onChange: (questions: BankQuestion[]) => void, onError: (err: Error) => void) =>
+  onSnapshot(
+    query(collection(db, QUESTION_BANK), orderBy("createdAt", "desc")),
+    (snap) => onChange(snap.docs.map((d) => toBankQuestion(d.id, d.data()))),
+    (err) => {
+      console.error("Failed to subscribe to question bank:", err);
+      onError(err);
+    }
+  );
+
+const newQuestionData = (q: QuestionInput) => {
+  const now = Date.now();
+  return { ...cleanQuestion(q), createdAt: now, updatedAt: now, usedAt: null, usedInSession: null };
+};
+
+// `id` null adds a new question
+export const saveQuestion = async (id: string | null, input: QuestionInput) => {
+  const problem = validateQuestion(input);
+  if (problem) throw new Error(problem);
+  if (id) await updateDoc(questionRef(id), { ...cleanQuestion(input), updatedAt: Date.now() });
+  else await setDoc(doc(collection(db, QUESTION_BANK)), newQuestionData(input));
+};
+
+export const deleteQuestion = (id: string) => deleteDoc(questionRef(id));
+
+// Puts a used question back into rotation
+export const markQuestionUnused = (id: string) => updateDoc(questionRef(id), { usedAt: null, usedInSession: null });
+
+export type QuestionFilter = {
+  search: string;
+  // "" for all
+  category: string;
+  difficulty: Difficulty | "";
+  language: QuestionLanguage | "";
+  includeUsed: boolean;
+};
+
+export const EMPTY_QUESTION_FILTER: QuestionFilter = { search: "", category: "", difficulty: "", language: "", includeUsed: false };
+
+export const filterQuestions = (questions: BankQuestion[], filter: QuestionFilter) => {
+  const search = questionKey(filter.search);
+  return questions.filter(
+    (q) =>
+      (filter.includeUsed || !q.usedAt) &&
+      (!filter.category || q.category === filter.category) &&
+      (!filter.difficulty || q.difficulty === filter.difficulty) &&
+      (!filter.language || q.language === filter.language) &&
+      (!search || questionKey(q.text).includes(search))
+  );
+};
+
+export const questionCategories = (questions: BankQuestion[]) => Array.from(new Set(questions.map((q) => q.category))).sort();
+
+// --- Excel import ---
+
+export const QUESTION_FIELDS: FieldSpec[] = [
+  { key: "Question", label: "Question", type: "string", required: true, aliases: ["question text", "प्रश्न", "सवाल"] },
+  { key: "A", label: "Option A", type: "string", required: true, aliases: ["option 1", "विकल्प 1", "क"] },
+  { key: "B", label: "Option B", type: "string", required: true, aliases: ["option 2", "विकल्प 2", "ख"] },
+  { key: "C", label: "Option C", type: "string", required: true, aliases: ["option 3", "विकल्प 3", "ग"] },
+  { key: "D", label: "Option D", type: "string", required: true, aliases: ["option 4", "विकल्प 4", "घ"] },
+  { key: "Answer", label: "Answer", type: "string", required: true, aliases: ["correct", "correct answer", "उत्तर"] },
+  { key: "Category", label: "Category", type: "string", aliases: ["topic", "श्रेणी", "विषय"] },
+  { key: "Difficulty", label: "Difficulty", type: "string", aliases: ["level", "कठिनाई", "स्तर"] },
+  { key: "Language", label: "Language", type: "string", aliases: ["lang", "भाषा"] },
+];
+
+const OPTION_KEYS = ["A", "B", "C", "D"];
+const OPTION_LETTERS = [
+  ["a", "1", "क"],
+  ["b", "2", "ख"],
+  ["c", "3", "ग"],
+  ["d", "4", "घ"],
+];
+
+// "B", "2", "ख" or the text of the correct option
+const parseAnswer = (value: string, options: string[]) => {
+  const key = questionKey(value.replace(/^option\s+/i, ""));
+  const byLetter = OPTION_LETTERS.findIndex((letters) => letters.includes(key));
+  if (byLetter >= 0) return byLetter;
+  return options.findIndex((opt) => questionKey(opt) === key);
+};
+
+const pickAlias = <T extends { id: string; label: string; aliases: string[] }>(list: T[], value: string) => {
+  const key = questionKey(value);
+  return list.find((item) => [item.id, item.label.toLowerCase(), ...item.aliases].includes(key));
+};
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+
+export type QuestionPreviewRow = { index: number; question: QuestionInput | null; issues: RowIssue[] };
+
+const questionFromRecord = (record: ImportRecord): { question: QuestionInput | null; issues: RowIssue[] } => {
+  const issues: RowIssue[] = [];
+  const text = String(record.Question ?? "");
+  const options = OPTION_KEYS.map((k) => String(record[k] ?? ""));
+  const answerIndex = record.Answer === undefined ? -1 : parseAnswer(String(record.Answer), options);
+  if (record.Answer !== undefined && answerIndex < 0) issues.push({ field: "Answer", message: "Answer must be A-D, 1-4 or the text of an option" });
+
+  const difficulty = record.Difficulty === undefined ? DIFFICULTIES[1] : pickAlias(DIFFICULTIES, String(record.Difficulty));
+  if (!difficulty) issues.push({ field: "Difficulty", message: "Difficulty must be easy, medium or hard" });
+  // without a column, Devanagari text is taken as Hindi
+  const language = record.Language === undefined ? LANGUAGES[DEVANAGARI.test(text) ? 0 : 1] : pickAlias(LANGUAGES, String(record.Language));
+  if (!language) issues.push({ field: "Language", message: "Language must be Hindi or English" });
+
+  if (issues.length > 0 || !difficulty || !language) return { question: null, issues };
+  const question = cleanQuestion({ text, options, answerIndex, category: String(record.Category ?? ""), difficulty: difficulty.id, language: language.id });
+  const problem = validateQuestion(question);
+  return problem ? { question: null, issues: [{ field: "Question", message: problem }] } : { question, issues: [] };
+};
+
+// Sheet rows checked against the field specs and the bank: a question already in the
+// bank, or earlier in the sheet, is flagged rather than imported twice
+export const buildQuestionPreview = (rows: RawRow[], mapping: ColumnMapping, existing: BankQuestion[]): QuestionPreviewRow[] => {
+  const seen = new Set(existing.map((q) => questionKey(q.text)));
+  return buildPreview(rows, QUESTION_FIELDS, mapping).map((row) => {
+    if (row.issues.length > 0) return { index: row.index, question: null, issues: row.issues };
+    const { question, issues } = questionFromRecord(row.record);
+    if (!question) return { index: row.index, question: null, issues };
+    const key = questionKey(question.text);
+    if (seen.has(key)) return { index: row.index, question: null, issues: [{ field: "Question", message: "Already in the question bank" }] };
+    seen.add(key);
+    return { index: row.index, question, issues: [] };
+  });
+};
+
+export const importQuestions = async (questions: QuestionInput[], fileName: string, onProgress?: (progress: BulkProgress) => void) => {
+  const ops = questions.map((q): BulkOp => ({ type: "set", ref: doc(collection(db, QUESTION_BANK)), data: newQuestionData(q), label: q.text.slice(0, 60) }));
+  const result = await runBulkOps(ops, { onProgress });
+  await logBulkAudit({ action: "question.import", target: QUESTION_BANK, targetLabel: fileName }, ops, result);
+  return result;
+};
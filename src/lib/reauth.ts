@@ -0,0 +1,55 @@
+import { EmailAuthProvider, reauthenticateWithCredential } from "firebase/auth";
+import { auth } from "../../firebase";
+
+// Password re-confirmation before destructive or privileged actions. The server enforces it
+// (requireRecentAuth in src/lib/server/adminRequest.ts); the panel also asks up front so a
+// multi-step action doesn't stop halfway. ReauthDialog supplies the password prompt.
+
+// Matches RECENT_AUTH_MS in src/lib/server/adminRequest.ts, less a minute so an action
+// that just passed the check here doesn't fail it on the server
+const RECENT_AUTH_MS = 4 * 60 * 1000;
+
+export class ReauthCancelledError extends Error {
+  // alongside FirestoreError / AdminApiError codes
+  code = "reauth-cancelled";
+
+  constructor() {
+    super("Cancelled: password not confirmed");
+    this.name = "ReauthCancelledError";
+  }
+}
+
+// Resolves true once the admin has re-authenticated, false when they cancel
+type ReauthPrompt = (reason: string) => Promise<boolean>;
+
+let prompt: ReauthPrompt | null = null;
+// concurrent requests share one dialog
+let pending: Promise<boolean> | null = null;
+
+export const setReauthPrompt = (next: ReauthPrompt | null) => {
+  prompt = next;
+};
+
+export const reauthenticateWithPassword = async (password: string) => {
+  const user = auth.currentUser;
+  if (!user?.email) throw new Error("Not signed in with a password");
+  await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+  // the next ID token carries the new auth_time
+  await user.getIdToken(true);
+};
+
+const signedInRecently = async () => {
+  const user = auth.currentUser;
+  if (!user) return false;
+  const { authTime } = await user.getIdTokenResult();
+  return Date.now() - Date.parse(authTime) < RECENT_AUTH_MS;
+};
+
+// Throws when the admin cancels. `force` asks even after a recent sign-in, for when the
+// server has already refused it.
+export const confirmIdentity = async (reason: string, force = false) => {
+  if (!force && (await signedInRecently())) return;
+  if (!prompt) throw new Error("Password confirmation is not available");
+  if (!pending) pending = prompt(reason).finally(() => (pending = null));
+  if (!(await pending)) throw new ReauthCancelledError();
+};
@@ -0,0 +1,54 @@
+// Admin roles live on the user's `login/{uid}` doc as `roles: Role[]`.
+// Docs from before roles existed only carry `isAdmin: true`; they count as super-admins
+// until a super-admin assigns explicit roles.
+export type Role = "super_admin" | "quiz_host" | "content_manager" | "moderator";
+
+export const ROLES: { id: Role; label: string; description: string }[] = [
+  { id: "super_admin", label: "Super admin", description: "Everything, including assigning roles" },
+  { id: "quiz_host", label: "Quiz host", description: "Live quiz, chat and KBS config" },
+  { id: "content_manager", label: "Content manager", description: "WOF/WOP imports, versions and city list" },
+  { id: "moderator", label: "Moderator", description: "User rights table and chat" },
+];
+
+export type PanelSection = "rights" | "roles" | "audit" | "liveQuiz" | "chat" | "content" | "config";
+
+// super_admin is implied everywhere
+const SECTION_ROLES: Record<PanelSection, Role[]> = {
+  rights: ["moderator"],
+  roles: [],
+  audit: [],
+  liveQuiz: ["quiz_host"],
+  chat: ["quiz_host", "moderator"],
+  content: ["content_manager"],
+  config: ["quiz_host"],
+};
+
+const ROLE_IDS = ROLES.map((r) => r.id);
+
+export const rolesOf = (data: { roles?: unknown; isAdmin?: boolean } | null | undefined): Role[] => {
+  if (!data) return [];
+  if (Array.isArray(data.roles)) return data.roles.filter((r): r is Role => ROLE_IDS.includes(r));
+  return data.isAdmin ? ["super_admin"] : [];
+};
+
+export const canAccess = (roles: Role[], section: PanelSection) =>
+  roles.includes("super_admin") || SECTION_ROLES[section].some((r) => roles.includes(r));
+
+export const sameRoles = (a: Role[], b: Role[]) => a.length === b.length && a.every((r) => b.includes(r));
+
+// `isAdmin` stays in sync so anything still checking the legacy flag keeps working
+export const rolesPayload = (roles: Role[]) => ({ roles, isAdmin: roles.length > 0 });
+
+// Top-level collections each section may write in bulk through /api/admin/bulk.
+// Keep in step with IMPORT_TARGETS and firestore.rules.
+const BULK_SCOPES: Partial<Record<PanelSection, string[]>> = {
+  content: ["WOF", "WOP", "wallVersions", "snapshots"],
+  liveQuiz: ["kbsQuestions"],
+};
+
+// Section whose roles may bulk-write the document at `path`, null if none may
+export const bulkSectionFor = (path: string): PanelSection | null => {
+  const top = path.split("/")[0];
+  const entry = Object.entries(BULK_SCOPES).find(([, collections]) => collections.includes(top));
+  return entry ? (entry[0] as PanelSection) : null;
+};
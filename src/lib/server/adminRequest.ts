@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { adminAuth, adminDb } from "./firebaseAdmin";
+import { canAccess, rolesOf } from "../roles";
+import type { PanelSection, Role } from "../roles";
+
+export class ApiError extends Error {
+  status: number;
+  // sent to the client when it needs to tell this error apart, e.g. "reauth-required"
+  code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// `authTime` is when the caller last signed in or re-authenticated (ms)
+export type Caller = { uid: string; email: string; roles: Role[]; authTime: number };
+
+// Verifies the `Authorization: Bearer <ID token>` header and loads the caller's roles
+export const verifyCaller = async (request: Request): Promise<Caller> => {
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new ApiError(401, "Missing ID token");
+  let decoded;
+  try {
+    decoded = await adminAuth().verifyIdToken(token, true);
+  } catch (err) {
+    console.warn("Rejected ID token:", err);
+    throw new ApiError(401, "Invalid or expired ID token");
+  }
+  const snap = await adminDb().doc(`login/${decoded.uid}`).get();
+  return { uid: decoded.uid, email: decoded.email || "", roles: rolesOf(snap.data()), authTime: decoded.auth_time * 1000 };
+};
+
+// Destructive and privileged changes need a sign-in this recent; the client re-authenticates
+// with the caller's password and retries (see src/lib/reauth.ts)
+export const RECENT_AUTH_MS = 5 * 60 * 1000;
+
+export const requireRecentAuth = (caller: Caller) => {
+  if (Date.now() - caller.authTime > RECENT_AUTH_MS) throw new ApiError(401, "Confirm your password to continue", "reauth-required");
+};
+
+export const requireSection = async (request: Request, section: PanelSection) => {
+  const caller = await verifyCaller(request);
+  if (!canAccess(caller.roles, section)) throw new ApiError(403, `Your roles don't allow ${section} changes`);
+  return caller;
+};
+
+export const readJson = async <T>(request: Request): Promise<T> => {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new ApiError(400, "Request body must be JSON");
+  }
+};
+
+// Wraps a POST handler: its return value is sent as JSON, ApiErrors become their status
+export const adminRoute =
+  (handler: (request: Request) => Promise<unknown>) =>
+  async (request: Request) => {
+    try {
+      return NextResponse.json(await handler(request));
+    } catch (err) {
+      if (err instanceof ApiError) return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+      console.error(`${new URL(request.url).pathname} failed:`, err);
+      return NextResponse.json({ error: (err as Error).message || "Server error" }, { status: 500 });
+    }
+  };
@@ -0,0 +1,18 @@
+import { FieldValue } from "firebase-admin/firestore";
+import type { Firestore, Transaction, WriteBatch } from "firebase-admin/firestore";
+import type { Caller } from "./adminRequest";
+import type { AuditInput } from "../audit";
+
+// Server half of the audit trail in src/lib/audit.ts (same `auditLog` layout). The entry
+// is written by the same transaction or batch as the change it records.
+export const logAudit = (db: Firestore, writer: Transaction | WriteBatch, caller: Caller, input: AuditInput) => {
+  writer.create(db.collection("auditLog").doc(), {
+    ...input,
+    before: input.before ?? null,
+    after: input.after ?? null,
+    note: input.note || "",
+    actorUid: caller.uid,
+    actorEmail: caller.email,
+    at: FieldValue.serverTimestamp(),
+  });
+};
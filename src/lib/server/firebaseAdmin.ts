@@ -0,0 +1,15 @@
+import { applicationDefault, cert, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-only Firebase access for the /api/admin routes. FIREBASE_SERVICE_ACCOUNT holds the
+// service-account JSON; without it the default Google credentials are used. Setting
+// FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST points everything at the emulators.
+const adminApp = () =>
+  getApps()[0] ??
+  initializeApp({
+    credential: process.env.FIREBASE_SERVICE_ACCOUNT ? cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT)) : applicationDefault(),
+  });
+
+export const adminDb = () => getFirestore(adminApp());
+export const adminAuth = () => getAuth(adminApp());
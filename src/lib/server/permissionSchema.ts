@@ -0,0 +1,6 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { parsePermissionSchema, permissionKeys } from "../permissions";
+
+// Flag keys the rights routes accept, read fresh so new flags work without a deploy
+export const loadPermissionKeys = async (db: Firestore) =>
+  permissionKeys(parsePermissionSchema((await db.doc("config/permissionSchema").get()).data()));
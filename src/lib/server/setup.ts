@@ -0,0 +1,21 @@
+import type { Firestore } from "firebase-admin/firestore";
+
+// First-run setup: `config/setup` records who claimed the first super-admin seat.
+// While neither it nor any admin exists, a signed-in user may claim the seat; after
+// that, admins are appointed from the panel.
+export const setupRef = (db: Firestore) => db.doc("config/setup");
+
+// `isAdmin` is kept in sync with `roles` (see rolesPayload), so it finds every admin
+export const anyAdminQuery = (db: Firestore) => db.collection("login").where("isAdmin", "==", true).limit(1);
+
+export const isSetupOpen = async (db: Firestore) => {
+  const [setup, admins] = await Promise.all([setupRef(db).get(), anyAdminQuery(db).get()]);
+  return !setup.exists && admins.empty;
+};
+
+// Panels set up before roles existed have admins but no setup doc; the first
+// super-admin to sign in closes the claim for them.
+export const markSetupCompleted = async (db: Firestore, uid: string) => {
+  if ((await setupRef(db).get()).exists) return;
+  await setupRef(db).set({ superAdminUid: uid, completedAt: Date.now() });
+};
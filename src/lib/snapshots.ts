@@ -0,0 +1,94 @@
+import { collection, doc, getDocs, query, setDoc, where } from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { auth, db } from "../../firebase";
+import { logBulkAudit, runBulkOps } from "./bulkWrite";
+import type { BulkOp, BulkProgress, BulkResult } from "./bulkWrite";
+
+// Archive layout:
+//   snapshots/{snapshotId}               -> SnapshotMeta (written last, so only complete snapshots are listed)
+//   snapshots/{snapshotId}/docs/{docId}  -> copy of the original document, same id
+const SNAPSHOTS = "snapshots";
+
+export type SnapshotMeta = {
+  id: string;
+  collection: string;
+  createdAt: number;
+  count: number;
+  reason: string;
+  createdBy: string | null;
+};
+
+type ProgressFn = (progress: BulkProgress) => void;
+
+// `collectionName` is the content type (WOF/WOP); `path` is where its live records are read from
+export const takeSnapshot = async (collectionName: string, path: string, reason: string, onProgress?: ProgressFn): Promise<SnapshotMeta> => {
+  const snap = await getDocs(collection(db, path));
+  const metaRef = doc(collection(db, SNAPSHOTS));
+  const ops = snap.docs.map((d): BulkOp => ({ type: "set", ref: doc(metaRef, "docs", d.id), data: d.data(), label: d.id }));
+  const result = await runBulkOps(ops, { onProgress });
+  if (result.failed.length > 0) {
+    throw new Error(`Snapshot of ${collectionName} incomplete: ${result.failed.length} documents could not be archived`);
+  }
+
+  const meta: Omit<SnapshotMeta, "id"> = {
+    collection: collectionName,
+    createdAt: Date.now(),
+    count: snap.size,
+    reason,
+    createdBy: auth.currentUser?.email || null,
+  };
+  await setDoc(metaRef, meta);
+  return { id: metaRef.id, ...meta };
+};
+
+// Newest first
+export const listSnapshots = async (collectionName: string): Promise<SnapshotMeta[]> => {
+  const snap = await getDocs(query(collection(db, SNAPSHOTS), where("collection", "==", collectionName)));
+  return snap.docs
+    .map((d) => ({ ...(d.data() as Omit<SnapshotMeta, "id">), id: d.id }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Makes the records at `path` match the snapshot exactly: archived docs are written back
+// under their original ids and docs created since the snapshot are deleted.
+export const restoreSnapshot = async (meta: SnapshotMeta, path: string, onProgress?: ProgressFn): Promise<BulkResult> => {
+  const [archived, current] = await Promise.all([
+    getDocs(collection(db, SNAPSHOTS, meta.id, "docs")),
+    getDocs(collection(db, path)),
+  ]);
+  const archivedIds = new Set(archived.docs.map((d) => d.id));
+  const colRef = collection(db, path);
+  const ops: BulkOp[] = [
+    ...current.docs.filter((d) => !archivedIds.has(d.id)).map((d): BulkOp => ({ type: "delete", ref: d.ref, label: d.id })),
+    ...archived.docs.map((d): BulkOp => ({ type: "set", ref: doc(colRef, d.id), data: d.data(), label: d.id })),
+  ];
+  const result = await runBulkOps(ops, { onProgress });
+  await logBulkAudit(
+    {
+      action: "collection.restore",
+      target: path,
+      targetLabel: meta.collection,
+      note: `snapshot ${meta.id} (${meta.reason}) of ${new Date(meta.createdAt).toLocaleString()}`,
+    },
+    ops,
+    result
+  );
+  return result;
+};
+
+export const downloadCollectionJson = async (collectionName: string, path: string) => {
+  const snap = await getDocs(collection(db, path));
+  const docs: Record<string, DocumentData> = {};
+  snap.docs.forEach((d) => {
+    docs[d.id] = d.data();
+  });
+  const blob = new Blob([JSON.stringify({ collection: collectionName, exportedAt: new Date().toISOString(), docs }, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${collectionName}-backup-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,19 @@
+import { callAdminApi } from "./adminApi";
+import type { AccountRequest, AccountResponse } from "./adminApi";
+
+// Account lifecycle through /api/admin/accounts, which keeps Firebase Auth and `login` in sync
+const accountAction = (body: AccountRequest) => callAdminApi<AccountResponse>("accounts", body);
+
+// Without a password the response carries a reset link to send to the new user
+export const createAccount = (email: string, name: string, password?: string) => accountAction({ action: "create", email, name, password });
+
+export const updateAccount = (uid: string, email: string, name: string) => accountAction({ action: "update", uid, email, name });
+
+export const setAccountDisabled = (uid: string, disabled: boolean) => accountAction({ action: disabled ? "disable" : "enable", uid });
+
+export const deleteAccount = (uid: string) => accountAction({ action: "delete", uid });
+
+// Moves a login doc created by hand under the uid of the verified sign-in account with its email
+export const linkAccount = (uid: string) => accountAction({ action: "link", uid });
+
+export const passwordResetLink = async (uid: string) => (await accountAction({ action: "resetLink", uid })).resetLink || "";
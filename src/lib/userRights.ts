@@ -0,0 +1,224 @@
+import { collection, documentId, getCountFromServer, limit, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import type { FirestoreError, QueryConstraint } from "firebase/firestore";
+import { db } from "../../firebase";
+import { callAdminApi } from "./adminApi";
+import type { RowResult, SearchResponse, UserUpdate, UsersResponse } from "./adminApi";
+import type { PermissionFlags } from "./permissions";
+import { rolesOf, sameRoles } from "./roles";
+import type { Role } from "./roles";
+import type { PermissionPreset } from "./permissionPresets";
+
+// One row of the rights table: a `login` doc with the schema's flags normalized to booleans.
+// Flags added to the schema after the row was loaded are missing from `flags` and read as false.
+// `preset` is the id of the permission preset last applied to the user; `disabled` mirrors
+// the Firebase Auth account and only changes through /api/admin/accounts
+export type UserRow = { id: string; name: string; email: string; disabled: boolean; roles: Role[]; preset: string | null; flags: PermissionFlags };
+
+// a flag key, "roles" or "preset"
+export type RowField = string;
+
+export const toUserRow = (id: string, data: Record<string, unknown>, flagKeys: string[]): UserRow => ({
+  id,
+  name: typeof data.name === "string" ? data.name : "",
+  email: typeof data.email === "string" ? data.email : "",
+  disabled: !!data.disabled,
+  roles: rolesOf(data),
+  preset: typeof data.preset === "string" ? data.preset : null,
+  flags: Object.fromEntries(flagKeys.map((f) => [f, !!data[f]])),
+});
+
+// Fields of `row` that differ from the last loaded state
+export const changedFields = (row: UserRow, original: UserRow | undefined, flagKeys: string[]): RowField[] => {
+  if (!original) return [];
+  const changed: RowField[] = flagKeys.filter((f) => !!row.flags[f] !== !!original.flags[f]);
+  if (!sameRoles(row.roles, original.roles)) changed.push("roles");
+  if (row.preset !== original.preset) changed.push("preset");
+  return changed;
+};
+
+// "keep" leaves a flag as it is on each selected row
+export type FlagChoice = "keep" | "grant" | "revoke";
+
+export const applyFlagChoices = (row: UserRow, choices: Record<string, FlagChoice>): UserRow => {
+  const flags = { ...row.flags };
+  Object.entries(choices).forEach(([f, choice]) => {
+    if (choice === "grant") flags[f] = true;
+    if (choice === "revoke") flags[f] = false;
+  });
+  return { ...row, flags };
+};
+
+export const applyPreset = (row: UserRow, preset: PermissionPreset, flagKeys: string[]): UserRow => ({
+  ...row,
+  flags: { ...row.flags, ...Object.fromEntries(flagKeys.map((f) => [f, !!preset.flags[f]])) },
+  preset: preset.id,
+});
+
+// Only the fields edited since `original` are sent, each with the value it was edited from:
+// the server refuses the row if another admin changed one of them in the meantime.
+export const toUserUpdate = (row: UserRow, original: UserRow, flagKeys: string[], includeRoles: boolean): UserUpdate => {
+  const changed = changedFields(row, original, flagKeys);
+  const flags = flagKeys.filter((f) => changed.includes(f));
+  const expected: UserUpdate["expected"] = { flags: Object.fromEntries(flags.map((f) => [f, !!original.flags[f]])) };
+  const update: UserUpdate = { id: row.id, flags: Object.fromEntries(flags.map((f) => [f, !!row.flags[f]])), expected };
+  if (changed.includes("preset")) {
+    update.preset = row.preset;
+    expected.preset = original.preset;
+  }
+  if (includeRoles && changed.includes("roles")) {
+    update.roles = row.roles;
+    expected.roles = original.roles;
+  }
+  return update;
+};
+
+// The table's rows, the last server state of each and the unresolved conflicts: rows whose
+// server value changed under unsaved local edits, mapped to the new server row (null when
+// the row left the view, e.g. because it was deleted)
+export type RightsState = { rows: UserRow[]; original: Record<string, UserRow>; conflicts: Record<string, UserRow | null> };
+
+export const EMPTY_RIGHTS_STATE: RightsState = { rows: [], original: {}, conflicts: {} };
+
+const isDirty = (row: UserRow, original: UserRow | undefined, flagKeys: string[]) => changedFields(row, original, flagKeys).length > 0;
+
+// Merges a live snapshot of the view into the table. Clean rows follow the server; edited
+// rows keep their edits (profile fields still follow the server) and, if the server changed
+// under them, wait for resolveConflict.
+export const mergeServerRows = (state: RightsState, server: UserRow[], flagKeys: string[]): RightsState => {
+  const local = new Map(state.rows.map((r) => [r.id, r]));
+  const original = { ...state.original };
+  const conflicts = { ...state.conflicts };
+  const rows = server.map((s) => {
+    const mine = local.get(s.id);
+    const base = state.original[s.id];
+    // new, unedited, or the server already has exactly these edits (e.g. our own save)
+    if (!mine || !isDirty(mine, base, flagKeys) || !isDirty(s, mine, flagKeys)) {
+      original[s.id] = s;
+      delete conflicts[s.id];
+      return s;
+    }
+    const profile = { name: s.name, email: s.email, disabled: s.disabled };
+    original[s.id] = { ...base, ...profile };
+    if (isDirty(s, base, flagKeys)) conflicts[s.id] = s;
+    else delete conflicts[s.id];
+    return { ...mine, ...profile };
+  });
+
+  const seen = new Set(server.map((s) => s.id));
+  state.rows.forEach((r) => {
+    if (seen.has(r.id)) return;
+    if (isDirty(r, state.original[r.id], flagKeys)) {
+      rows.push(r);
+      conflicts[r.id] = null;
+    } else {
+      delete original[r.id];
+      delete conflicts[r.id];
+    }
+  });
+  return { rows, original, conflicts };
+};
+
+// "mine" re-applies the local edits on top of the server row, "theirs" drops them
+export const resolveConflict = (state: RightsState, id: string, keep: "mine" | "theirs", flagKeys: string[]): RightsState => {
+  if (!(id in state.conflicts)) return state;
+  const server = state.conflicts[id];
+  const conflicts = { ...state.conflicts };
+  delete conflicts[id];
+  if (!server) {
+    if (keep === "mine") return { ...state, conflicts };
+    const original = { ...state.original };
+    delete original[id];
+    return { rows: state.rows.filter((r) => r.id !== id), original, conflicts };
+  }
+  const rows = state.rows.map((mine) => {
+    if (mine.id !== id) return mine;
+    if (keep === "theirs") return server;
+    const edits = changedFields(mine, state.original[id], flagKeys);
+    return {
+      ...server,
+      flags: { ...server.flags, ...Object.fromEntries(flagKeys.filter((f) => edits.includes(f)).map((f) => [f, !!mine.flags[f]])) },
+      roles: edits.includes("roles") ? mine.roles : server.roles,
+      preset: edits.includes("preset") ? mine.preset : server.preset,
+    };
+  });
+  return { rows, original: { ...state.original, [id]: server }, conflicts };
+};
+
+// Matches MAX_UPDATES in /api/admin/users
+const UPDATES_PER_REQUEST = 500;
+
+// Fills in the search copies the app doesn't write; returns how many users were updated
+export const refreshUserSearch = async () => (await callAdminApi<SearchResponse>("search", {})).updated;
+
+// Saves rows through the admin API; one result per row, in order
+export const saveUserRows = async (updates: UserUpdate[]): Promise<RowResult[]> => {
+  const results: RowResult[] = [];
+  for (let i = 0; i < updates.length; i += UPDATES_PER_REQUEST) {
+    const chunk = updates.slice(i, i + UPDATES_PER_REQUEST);
+    try {
+      results.push(...(await callAdminApi<UsersResponse>("users", { updates: chunk })).results);
+    } catch (err) {
+      results.push(...chunk.map((u) => ({ id: u.id, ok: false, error: (err as Error).message || "Failed to save" })));
+    }
+  }
+  return results;
+};
+
+// Live, growing view: the table listens to the first `max` users of the query and
+// "Load more" raises `max`. Search is a case-insensitive prefix match on name, or on email when
+// the term contains "@", against the lower-cased copies in src/lib/userSearch.ts.
+// firestore.indexes.json covers the admins filter with a name/email sort or search.
+// Permission filters list users in id order, which needs no composite index; searching
+// within one does, and the query then fails with Firestore's link to create it.
+export const USERS_PAGE_SIZE = 50;
+
+// "all", "admins" or users that have the given flag
+export type UserFilter = "all" | "admins" | `flag:${string}`;
+// "id" keeps every user; name/email ordering skips docs without that field
+export type UserSortField = "id" | "name" | "email";
+
+export type UserQuery = { search: string; filter: UserFilter; sortField: UserSortField; sortDir: "asc" | "desc" };
+
+export const DEFAULT_USER_QUERY: UserQuery = { search: "", filter: "all", sortField: "id", sortDir: "asc" };
+
+// Permission filters ignore the name/email sort: each flag would need its own indexes, and
+// super-admins add flags through the schema at any time
+export const sortFieldOf = (q: UserQuery): UserSortField => (q.filter.startsWith("flag:") ? "id" : q.sortField);
+
+// The query failed for want of a composite index (see above)
+export const isMissingIndex = (err: FirestoreError) => err.code === "failed-precondition";
+
+const userConstraints = (q: UserQuery): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [];
+  if (q.filter === "admins") constraints.push(where("isAdmin", "==", true));
+  else if (q.filter !== "all") constraints.push(where(q.filter.slice("flag:".length), "==", true));
+
+  const term = q.search.trim();
+  if (term) {
+    // a range filter must be on the first orderBy field
+    const field = term.includes("@") ? "emailLower" : "nameLower";
+    const lower = term.toLowerCase();
+    constraints.push(where(field, ">=", lower), where(field, "<=", `${lower}\uf8ff`), orderBy(field, q.sortDir));
+  } else {
+    const sortField = sortFieldOf(q);
+    constraints.push(orderBy(sortField === "id" ? documentId() : sortField, q.sortDir));
+  }
+  return constraints;
+};
+
+// One extra doc tells whether there is more to load
+export const subscribeUserRows = (
+  q: UserQuery,
+  max: number,
+  flagKeys: string[],
+  onChange: (rows: UserRow[], hasMore: boolean) => void,
+  onError: (err: FirestoreError) => void
+) =>
+  onSnapshot(
+    query(collection(db, "login"), ...userConstraints(q), limit(max + 1)),
+    (snap) => onChange(snap.docs.slice(0, max).map((d) => toUserRow(d.id, d.data(), flagKeys)), snap.docs.length > max),
+    onError
+  );
+
+export const countUsers = async (q: UserQuery) =>
+  (await getCountFromServer(query(collection(db, "login"), ...userConstraints(q)))).data().count;
@@ -0,0 +1,14 @@
+// Firestore range queries are case-sensitive, so the rights table searches lower-cased copies
+// of `name` and `email` on each login doc. /api/admin/accounts writes them with every profile
+// change; /api/admin/search fills them in on docs the app created or renamed without them.
+// firestore.rules checks that a client writing them copies the real values.
+export const searchFieldsOf = (data: Record<string, unknown>) => ({
+  nameLower: typeof data.name === "string" ? data.name.toLowerCase() : "",
+  emailLower: typeof data.email === "string" ? data.email.toLowerCase() : "",
+});
+
+// True when a doc's search copies are missing or no longer match its name and email
+export const searchFieldsStale = (data: Record<string, unknown>) => {
+  const fields = searchFieldsOf(data);
+  return data.nameLower !== fields.nameLower || data.emailLower !== fields.emailLower;
+};
@@ -0,0 +1,156 @@
+import type { RawRow } from "./excel";
+import { toDirectImageUrl } from "./drivePhotos";
+import { canonicalCity, normalizeText } from "./cities";
+import type { CityLookup } from "./cities";
+
+export type FieldType = "string" | "number" | "url";
+
+export type FieldSpec = {
+  key: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  // alternative sheet headers that map to this field (compared case-insensitively)
+  aliases?: string[];
+  // map values through the admin-maintained canonical city list
+  canonicalCity?: boolean;
+};
+
+// Fields the app reads from WOF / WOP documents
+export const WALL_FIELDS: FieldSpec[] = [
+  { key: "Name", label: "Name", type: "string", required: true, aliases: ["full name", "नाम"] },
+  { key: "City", label: "City", type: "string", required: true, aliases: ["town", "शहर"], canonicalCity: true },
+  { key: "WP", label: "WP", type: "string", aliases: ["position", "designation", "पद"] },
+  { key: "Rem", label: "Rem", type: "string", aliases: ["remark", "remarks"] },
+  { key: "QN", label: "QN", type: "number" },
+  { key: "Photo", label: "Photo", type: "url", aliases: ["photo url", "image", "picture"] },
+];
+
+// field key -> sheet header ("" when the field is not mapped)
+export type ColumnMapping = Record<string, string>;
+export type ImportRecord = Record<string, string | number>;
+export type RowIssue = { field: string; message: string };
+// A value the normalization stage rewrote, shown to the admin before writing
+export type FieldChange = { field: string; before: string; after: string };
+export type PreviewRow = { index: number; record: ImportRecord; issues: RowIssue[]; changes: FieldChange[] };
+
+// Stored alongside the sheet fields but computed from them, never mapped from a column.
+// `Photo` keeps the original share link; `PhotoDirect` is what the app can render.
+export const DERIVED_FIELDS = ["PhotoDirect"];
+
+export const deriveFields = (record: ImportRecord): ImportRecord => {
+  if (typeof record.Photo !== "string") return record;
+  return { ...record, PhotoDirect: toDirectImageUrl(record.Photo) };
+};
+
+// Every key an import owns on a stored doc
+export const storedKeys = (fields: FieldSpec[]) => [...fields.map((f) => f.key), ...DERIVED_FIELDS];
+
+// Replace the import-owned fields of a stored doc, keeping anything else the app wrote to it
+export const replaceStoredFields = (existing: Record<string, unknown>, record: ImportRecord, fields: FieldSpec[]) => {
+  const rest = { ...existing };
+  storedKeys(fields).forEach((k) => delete rest[k]);
+  return { ...rest, ...record };
+};
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase();
+
+export const guessColumnMapping = (fields: FieldSpec[], headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  fields.forEach((f) => {
+    const candidates = [f.key, f.label, ...(f.aliases || [])].map(normalizeHeader);
+    const match = headers.find((h) => candidates.includes(normalizeHeader(h)));
+    mapping[f.key] = match || "";
+  });
+  return mapping;
+};
+
+const isBlank = (v: unknown) => v == null || (typeof v === "string" && v.trim() === "");
+
+// Pick the mapped cells out of a sheet row. Number fields are coerced when the cell
+// holds a numeric string; anything else is kept as-is so validation can flag it.
+export const mapRow = (row: RawRow, fields: FieldSpec[], mapping: ColumnMapping): ImportRecord => {
+  const record: ImportRecord = {};
+  fields.forEach((f) => {
+    const header = mapping[f.key];
+    if (!header) return;
+    const value = row[header];
+    if (isBlank(value)) return;
+    if (f.type === "number" && typeof value === "number") {
+      record[f.key] = value;
+    } else if (f.type === "number" && typeof value === "string" && !Number.isNaN(Number(value.trim()))) {
+      record[f.key] = Number(value.trim());
+    } else if (f.type === "url") {
+      record[f.key] = String(value).trim();
+    } else {
+      record[f.key] = String(value);
+    }
+  });
+  return record;
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const validateRecord = (record: ImportRecord, fields: FieldSpec[]): RowIssue[] => {
+  const issues: RowIssue[] = [];
+  fields.forEach((f) => {
+    const value = record[f.key];
+    if (isBlank(value)) {
+      if (f.required) issues.push({ field: f.key, message: `${f.label} is required` });
+      return;
+    }
+    if (f.type === "number" && typeof value !== "number") {
+      issues.push({ field: f.key, message: `${f.label} must be a number` });
+    }
+    if (f.type === "url" && !isValidUrl(String(value))) {
+      issues.push({ field: f.key, message: `${f.label} is not a valid URL` });
+    }
+  });
+  return issues;
+};
+
+// Text cleanup applied to every string field before validation; cities are also mapped
+// to their canonical spelling. Values that end up empty are dropped so "required" catches them.
+export const normalizeRecord = (record: ImportRecord, fields: FieldSpec[], cityLookup?: CityLookup) => {
+  const normalized: ImportRecord = { ...record };
+  const changes: FieldChange[] = [];
+  fields.forEach((f) => {
+    const value = record[f.key];
+    if (typeof value !== "string") return;
+    let next = normalizeText(value);
+    if (f.canonicalCity && cityLookup && next) next = canonicalCity(next, cityLookup);
+    if (next === value) return;
+    changes.push({ field: f.key, before: value, after: next });
+    if (next) normalized[f.key] = next;
+    else delete normalized[f.key];
+  });
+  return { record: normalized, changes };
+};
+
+// Mapping for data already keyed by field (e.g. editor drafts or re-imported exports)
+export const identityMapping = (fields: FieldSpec[]): ColumnMapping =>
+  Object.fromEntries(fields.map((f) => [f.key, f.key]));
+
+export const buildPreview = (rows: RawRow[], fields: FieldSpec[], mapping: ColumnMapping, cityLookup?: CityLookup): PreviewRow[] => {
+  return rows.map((row, index) => {
+    const { record, changes } = normalizeRecord(mapRow(row, fields, mapping), fields, cityLookup);
+    return { index, record: deriveFields(record), issues: validateRecord(record, fields), changes };
+  });
+};
+
+// Inverse of `mapRow` with the default mapping: a stored doc as a sheet row the importer accepts
+export const toSheetRow = (data: Record<string, unknown>, fields: FieldSpec[]): RawRow => {
+  const row: RawRow = {};
+  fields.forEach((f) => {
+    const value = data[f.key];
+    row[f.key] = value == null ? "" : value;
+  });
+  return row;
+};
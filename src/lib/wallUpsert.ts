@@ -0,0 +1,98 @@
+import type { DocumentData } from "firebase/firestore";
+import { replaceStoredFields, storedKeys } from "./wallImport";
+import type { FieldSpec, ImportRecord, PreviewRow } from "./wallImport";
+
+// Natural keys an import can be matched on. QN repeats across WOP rows of the same quiz,
+// so Name + City is the default.
+export type KeyStrategy = { id: string; label: string; fields: string[] };
+
+export const KEY_STRATEGIES: KeyStrategy[] = [
+  { id: "name_city", label: "Name + City", fields: ["Name", "City"] },
+  { id: "qn", label: "QN", fields: ["QN"] },
+];
+
+export type ExistingDoc = { id: string; data: DocumentData };
+
+export type UpsertPlan = {
+  added: ImportRecord[];
+  updated: { id: string; before: DocumentData; after: DocumentData; changedFields: string[] }[];
+  unchanged: ExistingDoc[];
+  // docs in Firestore whose key is not present in the sheet
+  missing: ExistingDoc[];
+};
+
+const keyPart = (v: unknown) => (v == null ? "" : String(v).trim().toLowerCase());
+
+// Returns null when any key field is empty
+export const recordKey = (record: DocumentData, keyFields: string[]): string | null => {
+  const parts = keyFields.map((f) => keyPart(record[f]));
+  return parts.some((p) => p === "") ? null : parts.join("|");
+};
+
+// Adds issues for rows whose key is empty or repeats an earlier row in the sheet
+export const markKeyIssues = (preview: PreviewRow[], strategy: KeyStrategy): PreviewRow[] => {
+  const firstRowByKey = new Map<string, number>();
+  return preview.map((r) => {
+    const key = recordKey(r.record, strategy.fields);
+    if (key == null) {
+      return { ...r, issues: [...r.issues, { field: strategy.fields[0], message: `${strategy.label} is needed to match records` }] };
+    }
+    const first = firstRowByKey.get(key);
+    if (first != null) {
+      return { ...r, issues: [...r.issues, { field: strategy.fields[0], message: `Duplicate ${strategy.label} of row ${first + 2}` }] };
+    }
+    firstRowByKey.set(key, r.index);
+    return r;
+  });
+};
+
+const sameValue = (a: unknown, b: unknown) => (a == null ? "" : String(a)) === (b == null ? "" : String(b));
+
+export const planUpsert = (
+  records: ImportRecord[],
+  existing: ExistingDoc[],
+  fields: FieldSpec[],
+  strategy: KeyStrategy
+): UpsertPlan => {
+  const existingByKey = new Map<string, ExistingDoc>();
+  const unmatched = new Set<ExistingDoc>();
+  existing.forEach((d) => {
+    const key = recordKey(d.data, strategy.fields);
+    // Duplicate keys already in Firestore: first match wins, the rest count as missing
+    if (key != null && !existingByKey.has(key)) existingByKey.set(key, d);
+    unmatched.add(d);
+  });
+
+  const keys = storedKeys(fields);
+  const plan: UpsertPlan = { added: [], updated: [], unchanged: [], missing: [] };
+  records.forEach((record) => {
+    const key = recordKey(record, strategy.fields);
+    const match = key != null ? existingByKey.get(key) : undefined;
+    if (!match) {
+      plan.added.push(record);
+      return;
+    }
+    unmatched.delete(match);
+    const changedFields = keys.filter((k) => !sameValue(match.data[k], record[k]));
+    if (changedFields.length === 0) {
+      plan.unchanged.push(match);
+      return;
+    }
+    const after = replaceStoredFields(match.data, record, fields);
+    plan.updated.push({ id: match.id, before: match.data, after, changedFields });
+  });
+  plan.missing = Array.from(unmatched);
+  return plan;
+};
+
+// The records a draft should hold once the plan is applied to the live data
+export const draftRecordsFromPlan = (plan: UpsertPlan, deleteMissing: boolean): { id?: string; data: DocumentData }[] => [
+  ...plan.unchanged.map((u) => ({ id: u.id, data: u.data })),
+  ...plan.updated.map((u) => ({ id: u.id, data: u.after })),
+  ...plan.added.map((record) => ({ data: record })),
+  ...(deleteMissing ? [] : plan.missing.map((m) => ({ id: m.id, data: m.data }))),
+];
+
+export const summarizePlan = (plan: UpsertPlan, deleteMissing: boolean) =>
+  `${plan.added.length} added, ${plan.updated.length} updated, ${plan.unchanged.length} unchanged, ` +
+  (deleteMissing ? `${plan.missing.length} removed` : `${plan.missing.length} not in sheet (kept)`);
@@ -0,0 +1,191 @@
+import { collection, doc, getDoc, getDocs, onSnapshot, query, runTransaction, updateDoc, where, writeBatch } from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { auth, db } from "../../firebase";
+import { runBulkOps } from "./bulkWrite";
+import { logAudit } from "./audit";
+import type { BulkOp, BulkProgress, BulkResult } from "./bulkWrite";
+
+// Data contract:
+// config/global.activeVersions   = { WOF: "<versionId>" | null, WOP: ... }
+//   The app reads WOF records from wallVersions/<versionId>/records. A missing or null
+//   pointer means the legacy top-level `WOF` collection is still the live data.
+// config/global.previousVersions = same shape, what was live before the last publish (rollback target)
+// wallVersions/{versionId}                 -> VersionMeta (written after all its records)
+// wallVersions/{versionId}/records/{docId} -> one WOF/WOP record
+const VERSIONS = "wallVersions";
+
+export type VersionStatus = "draft" | "published" | "superseded";
+
+export type VersionMeta = {
+  id: string;
+  collection: string;
+  status: VersionStatus;
+  createdAt: number;
+  createdBy: string | null;
+  count: number;
+  note: string;
+  // scheduled publish time (ms), null when not scheduled
+  publishAt: number | null;
+  publishedAt: number | null;
+};
+
+export type VersionPointers = { active: string | null; previous: string | null };
+
+const configRef = () => doc(db, "config", "global");
+
+export const versionRecordsPath = (versionId: string) => `${VERSIONS}/${versionId}/records`;
+
+// Path the app currently reads `collectionName` records from
+export const livePath = (collectionName: string, pointers: VersionPointers) =>
+  pointers.active ? versionRecordsPath(pointers.active) : collectionName;
+
+const readPointers = (data: DocumentData | undefined, collectionName: string): VersionPointers => ({
+  active: data?.activeVersions?.[collectionName] ?? null,
+  previous: data?.previousVersions?.[collectionName] ?? null,
+});
+
+export const getVersionPointers = async (collectionName: string) => readPointers((await getDoc(configRef())).data(), collectionName);
+
+export const subscribeVersionPointers = (collectionName: string, onChange: (pointers: VersionPointers) => void) =>
+  onSnapshot(
+    configRef(),
+    (snap) => onChange(readPointers(snap.data(), collectionName)),
+    (err) => console.error(`Failed to subscribe to ${collectionName} version pointer:`, err)
+  );
+
+// Deletes the records a failed draft import wrote, so no orphaned version records are left.
+// The version doc is only written after all its records, so there is none to remove. Deletes
+// need a recent sign-in; if the admin declines or a delete fails, the orphans are logged.
+const removeWrittenRecords = async (ops: BulkOp[]) => {
+  if (ops.length === 0) return;
+  try {
+    const cleanup = await runBulkOps(ops.map((op): BulkOp => ({ type: "delete", ref: op.ref, label: op.label })));
+    if (cleanup.failed.length > 0) console.error(`Failed to remove ${cleanup.failed.length} records of an incomplete draft:`, cleanup.failed);
+  } catch (err) {
+    console.error("Failed to remove the records of an incomplete draft:", err);
+  }
+};
+
+export const createDraft = async (
+  collectionName: string,
+  records: { id?: string; data: DocumentData }[],
+  note: string,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<VersionMeta> => {
+  const metaRef = doc(collection(db, VERSIONS));
+  const recordsRef = collection(metaRef, "records");
+  const ops = records.map(
+    (r): BulkOp => ({ type: "set", ref: r.id ? doc(recordsRef, r.id) : doc(recordsRef), data: r.data, label: String(r.data.Name ?? r.id ?? "record") })
+  );
+  let result: BulkResult;
+  try {
+    result = await runBulkOps(ops, { onProgress });
+  } catch (err) {
+    // which chunks landed is unknown, so every record is removed
+    await removeWrittenRecords(ops);
+    throw err;
+  }
+  if (result.failed.length > 0) {
+    const failed = new Set(result.failed.map((f) => f.op));
+    await removeWrittenRecords(ops.filter((op) => !failed.has(op)));
+    throw new Error(`Draft incomplete: ${result.failed.length} of ${ops.length} records could not be written, so the draft was discarded. Please import again.`);
+  }
+
+  const meta: Omit<VersionMeta, "id"> = {
+    collection: collectionName,
+    status: "draft",
+    createdAt: Date.now(),
+    createdBy: auth.currentUser?.email || null,
+    count: records.length,
+    note,
+    publishAt: null,
+    publishedAt: null,
+  };
+  try {
+    const batch = writeBatch(db);
+    const auditId = logAudit(batch, {
+      action: "import.draft",
+      target: versionRecordsPath(metaRef.id),
+      targetLabel: collectionName,
+      before: null,
+      after: { versionId: metaRef.id, count: records.length },
+      note,
+    });
+    batch.set(metaRef, { ...meta, auditId });
+    await batch.commit();
+  } catch (err) {
+    await removeWrittenRecords(ops);
+    throw err;
+  }
+  return { id: metaRef.id, ...meta };
+};
+
+// Newest first
+export const listVersions = async (collectionName: string): Promise<VersionMeta[]> => {
+  const snap = await getDocs(query(collection(db, VERSIONS), where("collection", "==", collectionName)));
+  return snap.docs.map((d) => ({ ...(d.data() as Omit<VersionMeta, "id">), id: d.id })).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Atomically points the app at `versionId` (null = legacy collection) and remembers
+// what was live before so it can be rolled back to.
+export const publishVersion = async (
+  collectionName: string,
+  versionId: string | null,
+  action: "version.publish" | "version.rollback" = "version.publish"
+) => {
+  await runTransaction(db, async (tx) => {
+    const cfg = await tx.get(configRef());
+    const { active } = readPointers(cfg.data(), collectionName);
+    if (active === versionId) return;
+
+    if (versionId) {
+      const target = await tx.get(doc(db, VERSIONS, versionId));
+      if (!target.exists() || target.data().collection !== collectionName) {
+        throw new Error(`Version ${versionId} is not a ${collectionName} version`);
+      }
+      tx.update(target.ref, { status: "published", publishedAt: Date.now(), publishAt: null });
+    }
+    if (active) tx.update(doc(db, VERSIONS, active), { status: "superseded" });
+    const auditId = logAudit(tx, {
+      action,
+      target: `config/global.activeVersions.${collectionName}`,
+      targetLabel: collectionName,
+      before: { active },
+      after: { active: versionId },
+    });
+    tx.set(
+      configRef(),
+      { activeVersions: { [collectionName]: versionId }, previousVersions: { [collectionName]: active }, auditId },
+      { merge: true }
+    );
+  });
+};
+
+export const rollbackVersion = async (collectionName: string) => {
+  const { active, previous } = await getVersionPointers(collectionName);
+  if (!active && !previous) throw new Error(`${collectionName} has no previous version to roll back to`);
+  await publishVersion(collectionName, previous, "version.rollback");
+};
+
+export const schedulePublish = (versionId: string, publishAt: number | null) =>
+  updateDoc(doc(db, VERSIONS, versionId), { publishAt });
+
+// Publishes the newest draft whose scheduled time has passed. Runs from the admin panel,
+// so scheduled versions go live the next time a panel is open after their time.
+export const publishDueVersions = async (collectionName: string) => {
+  const now = Date.now();
+  const due = (await listVersions(collectionName)).find((v) => v.status === "draft" && v.publishAt != null && v.publishAt <= now);
+  if (!due) return null;
+  await publishVersion(collectionName, due.id);
+  return due;
+};
+
+export const discardDraft = async (meta: VersionMeta) => {
+  if (meta.status !== "draft") throw new Error("Only drafts can be discarded");
+  const records = await getDocs(collection(db, versionRecordsPath(meta.id)));
+  const ops: BulkOp[] = [
+    ...records.docs.map((d): BulkOp => ({ type: "delete", ref: d.ref, label: d.id })),
+    { type: "delete", ref: doc(db, VERSIONS, meta.id), label: meta.id },
+  ];
+  return runBulkOps(ops);
+};
@@ -0,0 +1,54 @@
+import { vi } from "vitest";
+import { adminAuth, adminDb } from "../lib/server/firebaseAdmin";
+import { RECENT_AUTH_MS } from "../lib/server/adminRequest";
+
+// Shared setup for the tests that need the Firebase emulators (`npm run test:emulators`).
+// Without FIRESTORE_EMULATOR_HOST and FIREBASE_AUTH_EMULATOR_HOST they are skipped.
+export const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-admin-panel";
+process.env.GCLOUD_PROJECT = PROJECT_ID;
+
+const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST;
+const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+export const hasFirestoreEmulator = !!firestoreHost;
+export const hasEmulators = !!firestoreHost && !!authHost;
+
+// Empties both emulators between tests
+export const resetEmulators = async () => {
+  await fetch(`http://${firestoreHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: "DELETE" });
+  await fetch(`http://${authHost}/emulator/v1/projects/${PROJECT_ID}/accounts`, { method: "DELETE" });
+};
+
+const PASSWORD = "password123";
+
+// Creates an Auth account, stores `login` (if given) as its login doc and signs it in
+export const signInAs = async (email: string, login: Record<string, unknown> | null = {}) => {
+  const user = await adminAuth().createUser({ email, password: PASSWORD });
+  if (login) await adminDb().doc(`login/${user.uid}`).set({ email, name: email, ...login });
+  const res = await fetch(`http://${authHost}/identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=emulator`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email, password: PASSWORD, returnSecureToken: true }),
+  });
+  const { idToken } = (await res.json()) as { idToken: string };
+  return { uid: user.uid, token: idToken };
+};
+
+type Handler = (request: Request) => Promise<Response>;
+
+// Calls a route handler the way the panel does (see src/lib/adminApi.ts)
+export const post = async (handler: Handler, token: string | null, body: unknown) => {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (token) headers.authorization = `Bearer ${token}`;
+  const res = await handler(new Request("http://localhost/api/admin/test", { method: "POST", headers, body: JSON.stringify(body) }));
+  return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+};
+
+// Moves the clock past RECENT_AUTH_MS so the caller's sign-in counts as stale;
+// undone by vi.restoreAllMocks()
+export const makeSignInStale = () => {
+  const later = Date.now() + RECENT_AUTH_MS + 60 * 1000;
+  vi.spyOn(Date, "now").mockReturnValue(later);
+};
+
+export const auditEntries = async (action: string) => (await adminDb().collection("auditLog").where("action", "==", action).get()).docs.map((d) => d.data());
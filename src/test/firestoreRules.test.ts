@@ -0,0 +1,229 @@
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { assertFails, assertSucceeds, initializeTestEnvironment } from "@firebase/rules-unit-testing";
+import type { RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, serverTimestamp, setDoc, updateDoc, writeBatch } from "firebase/firestore";
+import { rolesPayload } from "../lib/roles";
+import type { Role } from "../lib/roles";
+import { hasFirestoreEmulator, PROJECT_ID } from "./emulators";
+
+// One signed-in user per role, plus a player without any
+const USERS: Record<string, Role[]> = {
+  player: [],
+  host: ["quiz_host"],
+  content: ["content_manager"],
+  moderator: ["moderator"],
+  super: ["super_admin"],
+};
+
+describe.skipIf(!hasFirestoreEmulator)("firestore.rules", () => {
+  let env: RulesTestEnvironment;
+  const as = (uid: string) => env.authenticatedContext(uid).firestore();
+
+  // Merges `data` into `path` the way src/lib/audit.ts has the panel do it: together with
+  // a new log entry for `action` that `auditId` points at
+  const withAudit = (uid: string, path: string, data: Record<string, unknown>, action: string) => {
+    const db = as(uid);
+    const batch = writeBatch(db);
+    const entry = doc(collection(db, "auditLog"));
+    batch.set(entry, { action, target: path, actorUid: uid, at: serverTimestamp() });
+    batch.set(doc(db, path), { ...data, auditId: entry.id }, { merge: true });
+    return batch.commit();
+  };
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({ projectId: PROJECT_ID, firestore: { rules: readFileSync("firestore.rules", "utf8") } });
+  });
+
+  afterAll(() => env?.cleanup());
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      for (const [uid, roles] of Object.entries(USERS)) {
+        await setDoc(doc(db, "login", uid), { name: uid, email: `${uid}@example.com`, ...(roles.length ? rolesPayload(roles) : {}) });
+      }
+      await setDoc(doc(db, "config/permissionSchema"), { keys: ["beta_access"] });
+      await setDoc(doc(db, "live_sessions/s1"), { phase: "question", questionIndex: 1, selected: null, userLocked: false });
+      await setDoc(doc(db, "kbsQuestions/q1"), { text: "Q", options: ["a", "b", "c", "d"], answerIndex: 0 });
+    });
+  });
+
+  describe("login", () => {
+    it("lets a new user create a profile that grants nothing", async () => {
+      await assertSucceeds(setDoc(doc(as("newbie"), "login/newbie"), { name: "New", email: "new@example.com", postapproval: false }));
+    });
+
+    it("refuses a profile that grants roles, admin, flags or a preset, or starts disabled", async () => {
+      const ref = doc(as("newbie"), "login/newbie");
+      await assertFails(setDoc(ref, { name: "New", roles: ["super_admin"] }));
+      await assertFails(setDoc(ref, { name: "New", isAdmin: true }));
+      await assertFails(setDoc(ref, { name: "New", postapproval: true }));
+      await assertFails(setDoc(ref, { name: "New", preset: "editors" }));
+      await assertFails(setDoc(ref, { name: "New", beta_access: false }));
+      await assertFails(setDoc(ref, { name: "New", disabled: true }));
+    });
+
+    it("refuses a profile under someone else's uid", async () => {
+      await assertFails(setDoc(doc(as("newbie"), "login/other"), { name: "Other" }));
+    });
+
+    it("lets users edit their profile but not their rights", async () => {
+      const ref = doc(as("player"), "login/player");
+      await assertSucceeds(updateDoc(ref, { name: "Renamed" }));
+      await assertFails(updateDoc(ref, { roles: ["quiz_host"] }));
+      await assertFails(updateDoc(ref, { isAdmin: true }));
+      await assertFails(updateDoc(ref, { postdelete: true }));
+      await assertFails(updateDoc(ref, { preset: "editors" }));
+      await assertFails(updateDoc(ref, { beta_access: true }));
+      await assertFails(updateDoc(ref, { disabled: false }));
+    });
+
+    it("accepts search copies only when they match the name and email", async () => {
+      const ref = doc(as("player"), "login/player");
+      await assertSucceeds(updateDoc(ref, { name: "Renamed", nameLower: "renamed" }));
+      await assertFails(updateDoc(ref, { nameLower: "someone else" }));
+      await assertFails(setDoc(doc(as("newbie"), "login/newbie"), { name: "New", email: "New@example.com", emailLower: "new@example.org" }));
+      await assertSucceeds(setDoc(doc(as("newbie"), "login/newbie"), { name: "New", email: "New@example.com", emailLower: "new@example.com" }));
+    });
+
+    it("keeps rights read-only to admins too", async () => {
+      await assertFails(updateDoc(doc(as("super"), "login/player"), { postapproval: true }));
+      await assertFails(deleteDoc(doc(as("super"), "login/player")));
+    });
+
+    it("shows other users' docs only to rights managers", async () => {
+      await assertFails(getDoc(doc(as("player"), "login/host")));
+      await assertFails(getDocs(collection(as("host"), "login")));
+      await assertSucceeds(getDocs(collection(as("moderator"), "login")));
+    });
+  });
+
+  describe("config", () => {
+    it("lets hosts change only the KBS timer in config/global", async () => {
+      await assertSucceeds(withAudit("host", "config/global", { timeleftforkbs: 30 }, "config.timeleftforkbs"));
+      await assertFails(withAudit("host", "config/global", { activeVersions: {} }, "version.publish"));
+      await assertFails(withAudit("player", "config/global", { timeleftforkbs: 30 }, "config.timeleftforkbs"));
+    });
+
+    it("lets content managers change only the active versions in config/global", async () => {
+      await assertSucceeds(withAudit("content", "config/global", { activeVersions: { WOF: "v1" } }, "version.publish"));
+      await assertSucceeds(withAudit("content", "config/global", { activeVersions: { WOF: null } }, "version.rollback"));
+      await assertFails(withAudit("content", "config/global", { timeleftforkbs: 30 }, "config.timeleftforkbs"));
+    });
+
+    it("refuses config changes without a new audit entry for them", async () => {
+      await assertFails(setDoc(doc(as("host"), "config/global"), { timeleftforkbs: 30 }, { merge: true }));
+      await assertFails(withAudit("host", "config/global", { timeleftforkbs: 30 }, "version.publish"));
+      await env.withSecurityRulesDisabled((ctx) => setDoc(doc(ctx.firestore(), "auditLog/old"), { action: "config.timeleftforkbs", actorUid: "host" }));
+      await assertFails(setDoc(doc(as("host"), "config/global"), { timeleftforkbs: 30, auditId: "old" }, { merge: true }));
+      await assertFails(setDoc(doc(as("super"), "config/permissionSchema"), { keys: ["beta_access", "gamma"] }));
+      await assertFails(withAudit("super", "config/adminSecurity", { idleMinutes: 30 }, "config.permissionSchema"));
+    });
+
+    it("never lets clients write config/setup", async () => {
+      await assertFails(setDoc(doc(as("super"), "config/setup"), { superAdminUid: "super" }));
+      await assertFails(setDoc(doc(as("player"), "config/setup"), { superAdminUid: "player" }));
+    });
+
+    it("keeps the permission schema and other config docs to super-admins", async () => {
+      await assertSucceeds(withAudit("super", "config/permissionSchema", { keys: ["beta_access", "gamma"] }, "config.permissionSchema"));
+      await assertFails(withAudit("moderator", "config/permissionSchema", { keys: [] }, "config.permissionSchema"));
+      await assertSucceeds(withAudit("super", "config/adminSecurity", { idleMinutes: 30 }, "config.adminSecurity"));
+      await assertFails(withAudit("host", "config/adminSecurity", { idleMinutes: 999 }, "config.adminSecurity"));
+    });
+
+    it("lets rights managers edit the permission presets", async () => {
+      await assertSucceeds(setDoc(doc(as("moderator"), "config/permissionPresets"), { presets: [] }));
+      await assertFails(setDoc(doc(as("host"), "config/permissionPresets"), { presets: [] }));
+    });
+
+    it("keeps config unreadable to signed-out visitors", async () => {
+      await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), "config/global")));
+    });
+  });
+
+  describe("auditLog", () => {
+    const entry = (actorUid: string) => ({ action: "rights.save", target: "login/player", actorUid, at: serverTimestamp() });
+
+    it("lets admins append their own entries", async () => {
+      await assertSucceeds(addDoc(collection(as("host"), "auditLog"), entry("host")));
+    });
+
+    it("refuses entries from players, for another actor or with a client time", async () => {
+      await assertFails(addDoc(collection(as("player"), "auditLog"), entry("player")));
+      await assertFails(addDoc(collection(as("host"), "auditLog"), entry("super")));
+      await assertFails(addDoc(collection(as("host"), "auditLog"), { ...entry("host"), at: new Date() }));
+    });
+
+    it("never lets an entry change or disappear", async () => {
+      await env.withSecurityRulesDisabled((ctx) => setDoc(doc(ctx.firestore(), "auditLog/e1"), { action: "rights.save", actorUid: "host" }));
+      await assertFails(updateDoc(doc(as("super"), "auditLog/e1"), { note: "edited" }));
+      await assertFails(deleteDoc(doc(as("super"), "auditLog/e1")));
+    });
+
+    it("shows the log to super-admins only", async () => {
+      await assertSucceeds(getDocs(collection(as("super"), "auditLog")));
+      await assertFails(getDocs(collection(as("moderator"), "auditLog")));
+    });
+  });
+
+  describe("live_sessions", () => {
+    it("lets players answer but not lock, reveal, pause or end", async () => {
+      const ref = doc(as("player"), "live_sessions/s1");
+      await assertSucceeds(updateDoc(ref, { selected: 2, userLocked: true }));
+      const hostOnly = { adminLocked: true, revealed: true, timerPaused: true, questionStartedAt: 1, pausedMs: 1, endedAt: 1 };
+      for (const [key, value] of Object.entries(hostOnly)) await assertFails(updateDoc(ref, { [key]: value }));
+    });
+
+    it("keeps naming and archiving sessions to hosts", async () => {
+      await assertFails(updateDoc(doc(as("player"), "live_sessions/s1"), { name: "Mine", archived: true }));
+      await assertFails(setDoc(doc(as("player"), "live_sessions/s2"), { name: "New", createdBy: "player" }));
+      await assertSucceeds(updateDoc(doc(as("host"), "live_sessions/s1"), { name: "Final", archived: false }));
+    });
+
+    it("lets only hosts record results, and nobody change them", async () => {
+      await assertFails(addDoc(collection(as("player"), "live_sessions/s1/results"), { player: "me", correct: true }));
+      await assertSucceeds(setDoc(doc(as("host"), "live_sessions/s1/results/r1"), { player: "me", correct: true }));
+      await assertFails(updateDoc(doc(as("host"), "live_sessions/s1/results/r1"), { correct: false }));
+      await assertFails(getDocs(collection(as("player"), "live_sessions/s1/results")));
+    });
+
+    it("lets hosts lock answers and delete sessions", async () => {
+      await assertSucceeds(updateDoc(doc(as("host"), "live_sessions/s1"), { adminLocked: true }));
+      await assertFails(deleteDoc(doc(as("player"), "live_sessions/s1")));
+      await assertSucceeds(deleteDoc(doc(as("host"), "live_sessions/s1")));
+    });
+  });
+
+  describe("kbsQuestions", () => {
+    it("hides the question bank from everyone but hosts", async () => {
+      await assertFails(getDoc(doc(as("player"), "kbsQuestions/q1")));
+      await assertFails(getDoc(doc(as("content"), "kbsQuestions/q1")));
+      await assertSucceeds(getDoc(doc(as("host"), "kbsQuestions/q1")));
+    });
+
+    it("lets only hosts edit it", async () => {
+      await assertFails(updateDoc(doc(as("moderator"), "kbsQuestions/q1"), { usedAt: null }));
+      await assertSucceeds(updateDoc(doc(as("host"), "kbsQuestions/q1"), { usedAt: Date.now() }));
+      await assertSucceeds(deleteDoc(doc(as("super"), "kbsQuestions/q1")));
+    });
+  });
+
+  describe("walls", () => {
+    it("keeps the walls public to read and content managers' to write", async () => {
+      await assertSucceeds(getDoc(doc(env.unauthenticatedContext().firestore(), "WOF/a")));
+      await assertFails(setDoc(doc(as("host"), "WOF/a"), { Name: "a" }));
+      await assertSucceeds(setDoc(doc(as("content"), "WOF/a"), { Name: "a" }));
+    });
+
+    it("creates a draft version only together with its audit entry", async () => {
+      await assertFails(setDoc(doc(as("content"), "wallVersions/v1"), { collection: "WOF", status: "draft" }));
+      await assertFails(withAudit("host", "wallVersions/v1", { collection: "WOF", status: "draft" }, "import.draft"));
+      await assertSucceeds(withAudit("content", "wallVersions/v1", { collection: "WOF", status: "draft" }, "import.draft"));
+      // scheduling and publishing update it, and are logged with the config change
+      await assertSucceeds(updateDoc(doc(as("content"), "wallVersions/v1"), { publishAt: 1 }));
+    });
+  });
+});
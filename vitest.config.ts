@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Emulator-backed tests share one project, so files run one at a time
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    fileParallelism: false,
+  },
+});